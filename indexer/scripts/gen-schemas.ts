@@ -0,0 +1,108 @@
+/**
+ * Generates runtime shape descriptors from the response interfaces in
+ * src/collectors/lighthouse.ts, so drift checks always match the types.
+ *
+ *   npm run gen:schemas
+ *
+ * Re-run after editing any Lighthouse interface; the output is committed.
+ */
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import ts from "typescript";
+
+const SOURCE = join(__dirname, "..", "src", "collectors", "lighthouse.ts");
+const OUTPUT = join(__dirname, "..", "src", "collectors", "lighthouse.schemas.ts");
+
+const file = ts.createSourceFile(
+  SOURCE,
+  readFileSync(SOURCE, "utf8"),
+  ts.ScriptTarget.ES2020,
+  true,
+);
+
+// Generic interfaces (LighthousePage<T>) and request types are not payloads
+const interfaces = file.statements.filter(
+  (s): s is ts.InterfaceDeclaration =>
+    ts.isInterfaceDeclaration(s) &&
+    !s.typeParameters &&
+    s.name.text !== "PaginationParams" &&
+    (s.modifiers ?? []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword),
+);
+const known = new Set(interfaces.map((i) => i.name.text));
+
+function typeSchema(node: ts.TypeNode): string {
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return `{ kind: "string" }`;
+    case ts.SyntaxKind.NumberKeyword:
+      return `{ kind: "number" }`;
+    case ts.SyntaxKind.BooleanKeyword:
+      return `{ kind: "boolean" }`;
+    case ts.SyntaxKind.UnknownKeyword:
+    case ts.SyntaxKind.AnyKeyword:
+      return `{ kind: "unknown" }`;
+  }
+  if (ts.isLiteralTypeNode(node)) {
+    if (node.literal.kind === ts.SyntaxKind.NullKeyword) return `{ kind: "null" }`;
+    if (ts.isStringLiteral(node.literal)) return `{ kind: "string" }`;
+    if (ts.isNumericLiteral(node.literal)) return `{ kind: "number" }`;
+    return `{ kind: "boolean" }`;
+  }
+  if (ts.isParenthesizedTypeNode(node)) return typeSchema(node.type);
+  if (ts.isArrayTypeNode(node)) return `{ kind: "array", items: ${typeSchema(node.elementType)} }`;
+  if (ts.isUnionTypeNode(node)) {
+    return `{ kind: "union", options: [${node.types.map(typeSchema).join(", ")}] }`;
+  }
+  if (ts.isTypeLiteralNode(node)) return objectSchema(node.members);
+  if (ts.isTypeReferenceNode(node)) {
+    const name = node.typeName.getText(file);
+    if (name === "Array" && node.typeArguments?.length === 1) {
+      return `{ kind: "array", items: ${typeSchema(node.typeArguments[0])} }`;
+    }
+    if (known.has(name)) return `{ kind: "ref", name: "${name}" }`;
+  }
+  // Anything fancier is not checked rather than guessed at
+  return `{ kind: "unknown" }`;
+}
+
+function fieldSchemas(members: ts.NodeArray<ts.TypeElement>): string[] {
+  return members
+    .filter(ts.isPropertySignature)
+    .filter((m) => m.type)
+    .map((m) => {
+      const name = m.name.getText(file);
+      const optional = m.questionToken ? ", optional: true" : "";
+      return `${name}: { type: ${typeSchema(m.type!)}${optional} }`;
+    });
+}
+
+// Nested object types stay on one line; top-level fields get one line each
+function objectSchema(members: ts.NodeArray<ts.TypeElement>): string {
+  return `{ kind: "object", fields: { ${fieldSchemas(members).join(", ")} } }`;
+}
+
+const body = interfaces
+  .map((i) =>
+    [
+      `  ${i.name.text}: {`,
+      `    kind: "object",`,
+      `    fields: {`,
+      ...fieldSchemas(i.members).map((f) => `      ${f},`),
+      `    },`,
+      `  },`,
+    ].join("\n"),
+  )
+  .join("\n");
+
+writeFileSync(
+  OUTPUT,
+  `// Generated by scripts/gen-schemas.ts from lighthouse.ts — do not edit by hand.
+
+import { ObjectSchema } from "./shapes.js";
+
+export const LIGHTHOUSE_SCHEMAS: Record<string, ObjectSchema> = {
+${body}
+};
+`,
+);
+console.log(`[gen-schemas] ${interfaces.length} schemas → ${OUTPUT}`);
@@ -0,0 +1,45 @@
+import { FastifyInstance } from "fastify";
+import { config, Network } from "../config.js";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    // The network a request is about — see registerNetworkResolution
+    network: Network;
+  }
+}
+
+// Route plugins are mounted at both prefixes; the unprefixed form serves the
+// default network unless `?network=` names another
+export const API_PREFIXES = ["/api", "/api/:network"];
+
+/**
+ * Sets `req.network` from the `/api/:network/...` path prefix, else from
+ * `?network=`, else to CANTON_NETWORK. A network this process does not index
+ * is answered with 404 before any handler runs.
+ */
+export function registerNetworkResolution(server: FastifyInstance): void {
+  server.decorateRequest("network", config.network);
+
+  server.addHook("onRequest", async (req, reply) => {
+    const requested =
+      (req.params as { network?: string } | undefined)?.network ??
+      (req.query as { network?: string } | undefined)?.network;
+    if (requested === undefined) {
+      req.network = config.network;
+      return;
+    }
+    if (!config.networks.includes(requested as Network)) {
+      return reply.status(404).send({
+        error: `Unknown network: ${requested}`,
+        detail: `This indexer serves ${config.networks.join(", ")}`,
+      });
+    }
+    req.network = requested as Network;
+  });
+
+  // Keeps /docs to one copy of each route; the prefixed form is in the README
+  server.addHook("onRoute", (route) => {
+    if (!route.url.startsWith("/api/:network/")) return;
+    route.schema = { ...route.schema, hide: true };
+  });
+}
@@ -0,0 +1,335 @@
+import { FastifyInstance } from "fastify";
+import { config } from "../../config.js";
+import {
+  runBackfill,
+  BackfillOptions,
+  BackfillProgress,
+  BackfillStream,
+  BACKFILL_STREAMS,
+} from "../../backfill.js";
+import { JOB_NAMES, jobStates, triggerJob } from "../../scheduler.js";
+import { listJobs, listPausedJobs, pauseJob, resumeJob } from "../../storage/jobs.js";
+import { leaderState } from "../../leader.js";
+import {
+  detachPartition,
+  DetachedPartitionExistsError,
+  listPartitions,
+  parseMonth,
+  PartitionedTable,
+  PARTITIONED_TABLES,
+} from "../../storage/partitions.js";
+
+// Only one backfill runs per process; its progress is kept here for GET polling
+interface BackfillRun {
+  startedAt: string;
+  finishedAt: string | null;
+  options: BackfillOptions;
+  progress: Partial<Record<BackfillStream, BackfillProgress>>;
+  controller: AbortController;
+  // Settles once the run has stopped, however it ended
+  done: Promise<void>;
+}
+
+let currentBackfill: BackfillRun | null = null;
+
+/**
+ * Stops a backfill started from this API and waits for it, so shutdown does not
+ * close the pool under it. It resumes from its checkpoint when started again.
+ */
+export async function stopBackfill(): Promise<void> {
+  const run = currentBackfill;
+  if (!run || run.finishedAt) return;
+  console.log("[admin] stopping the running backfill");
+  run.controller.abort();
+  await run.done;
+}
+
+export async function registerAdminRoutes(server: FastifyInstance): Promise<void> {
+  // Scoped to this plugin: every /api/admin/* route requires the bearer token
+  server.addHook("onRequest", async (req, reply) => {
+    if (!config.admin.token) {
+      return reply.status(403).send({ error: "Admin API disabled — set ADMIN_TOKEN" });
+    }
+    if (req.headers.authorization !== `Bearer ${config.admin.token}`) {
+      return reply.status(401).send({ error: "Unauthorized" });
+    }
+  });
+
+  // POST /api/admin/backfill
+  server.post(
+    "/admin/backfill",
+    {
+      schema: {
+        tags: ["admin"],
+        summary: "Start a historical backfill",
+        description:
+          "Walks the network's Lighthouse history backwards between two rounds and/or dates. Resumes from the saved cursor unless `restart` is set. Runs in the background — poll GET /api/admin/backfill for progress.",
+        body: {
+          type: "object",
+          properties: {
+            streams: {
+              type: "array",
+              items: { type: "string", enum: BACKFILL_STREAMS },
+            },
+            from_round: { type: "integer", minimum: 0 },
+            to_round: { type: "integer", minimum: 0 },
+            from: { type: "string", format: "date-time", description: "ISO8601 start time" },
+            to: { type: "string", format: "date-time", description: "ISO8601 end time" },
+            restart: { type: "boolean", default: false },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      if (currentBackfill && !currentBackfill.finishedAt) {
+        return reply
+          .status(409)
+          .send({ error: "Backfill already running", ...view(currentBackfill) });
+      }
+
+      const b = (req.body ?? {}) as Record<string, unknown>;
+      const options: BackfillOptions = {
+        network: req.network,
+        streams: b["streams"] as BackfillStream[] | undefined,
+        fromRound: b["from_round"] as number | undefined,
+        toRound: b["to_round"] as number | undefined,
+        from: b["from"] as string | undefined,
+        to: b["to"] as string | undefined,
+        restart: b["restart"] === true,
+      };
+
+      const controller = new AbortController();
+      const progress: BackfillRun["progress"] = {};
+      const run: BackfillRun = {
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        options,
+        progress,
+        controller,
+        done: runBackfill(options, controller.signal, (p) => {
+          progress[p.stream] = { ...p };
+        })
+          .then(() => undefined)
+          .catch((err) => console.error("[admin] backfill failed", err))
+          .finally(() => {
+            run.finishedAt = new Date().toISOString();
+          }),
+      };
+      currentBackfill = run;
+
+      return reply.status(202).send(view(run));
+    },
+  );
+
+  // GET /api/admin/backfill
+  server.get(
+    "/admin/backfill",
+    { schema: { tags: ["admin"], summary: "Progress of the current or last backfill" } },
+    async (_req, reply) => {
+      if (!currentBackfill) return reply.send({ running: false });
+      return reply.send(view(currentBackfill));
+    },
+  );
+
+  // DELETE /api/admin/backfill
+  server.delete(
+    "/admin/backfill",
+    {
+      schema: {
+        tags: ["admin"],
+        summary: "Stop the running backfill, cancelling its request in flight",
+      },
+    },
+    async (_req, reply) => {
+      if (!currentBackfill || currentBackfill.finishedAt) {
+        return reply.status(404).send({ error: "No backfill running" });
+      }
+      currentBackfill.controller.abort();
+      return reply.send(view(currentBackfill));
+    },
+  );
+
+  const jobParams = {
+    type: "object",
+    properties: { name: { type: "string", enum: JOB_NAMES } },
+    required: ["name"],
+  };
+
+  // GET /api/admin/jobs
+  server.get(
+    "/admin/jobs",
+    {
+      schema: {
+        tags: ["admin"],
+        summary: "Scheduler jobs with their schedule, pause state and last run",
+        description:
+          "`running` and `next_run_at` describe the scheduler on the replica that is leader; ask that replica (see `leader`) for live state.",
+      },
+    },
+    async (req, reply) => {
+      const [paused, summaries, leader] = await Promise.all([
+        listPausedJobs(req.network),
+        listJobs(req.network),
+        leaderState(req.network),
+      ]);
+      const data = jobStates(req.network).map((j) => {
+        const s = summaries.find((r) => r.job === j.name);
+        return {
+          ...j,
+          paused: paused.includes(j.name),
+          last_run_at: s?.last_run_at ?? null,
+          last_status: s?.last_status ?? null,
+          last_success_at: s?.last_success_at ?? null,
+          consecutive_failures: s?.consecutive_failures ?? 0,
+        };
+      });
+      return reply.send({
+        network: req.network,
+        instance: leader.instance,
+        is_leader: leader.is_leader,
+        leader: leader.leader,
+        count: data.length,
+        data,
+      });
+    },
+  );
+
+  // POST /api/admin/jobs/:name/run
+  server.post(
+    "/admin/jobs/:name/run",
+    {
+      schema: {
+        tags: ["admin"],
+        summary: "Run one job now, outside its schedule",
+        description:
+          "Runs in the background, also when the job is paused; the run shows up in GET /api/indexer/jobs/:name/runs. Only the scheduler leader can run jobs.",
+        params: jobParams,
+      },
+    },
+    async (req, reply) => {
+      const { name } = req.params as { name: string };
+      const result = triggerJob(req.network, name);
+      switch (result) {
+        case null:
+          return reply.status(404).send({ error: `Unknown job: ${name}` });
+        case "disabled":
+          return reply.status(409).send({ error: `Job ${name} is disabled by configuration` });
+        case "running":
+          return reply.status(409).send({ error: `Job ${name} is already running` });
+        case "stopped": {
+          const { leader } = await leaderState(req.network);
+          return reply.status(409).send({
+            error: "This replica is not the scheduler leader — send the request to the leader",
+            leader,
+          });
+        }
+      }
+      return reply.status(202).send({ network: req.network, job: name, started: true });
+    },
+  );
+
+  // POST /api/admin/jobs/:name/pause
+  server.post(
+    "/admin/jobs/:name/pause",
+    {
+      schema: {
+        tags: ["admin"],
+        summary: "Stop scheduling a job",
+        description:
+          "Scheduled ticks and the full snapshot skip the job until it is resumed. A run in progress finishes normally. Survives restarts and leader changes.",
+        params: jobParams,
+      },
+    },
+    async (req, reply) => {
+      const { name } = req.params as { name: string };
+      const changed = await pauseJob(name, req.network);
+      console.log(`[admin] job ${name} paused`);
+      return reply.send({ network: req.network, job: name, paused: true, changed });
+    },
+  );
+
+  // POST /api/admin/jobs/:name/resume
+  server.post(
+    "/admin/jobs/:name/resume",
+    {
+      schema: {
+        tags: ["admin"],
+        summary: "Resume scheduling a paused job",
+        params: jobParams,
+      },
+    },
+    async (req, reply) => {
+      const { name } = req.params as { name: string };
+      const changed = await resumeJob(name, req.network);
+      console.log(`[admin] job ${name} resumed`);
+      return reply.send({ network: req.network, job: name, paused: false, changed });
+    },
+  );
+
+  // GET /api/admin/partitions
+  server.get(
+    "/admin/partitions",
+    {
+      schema: {
+        tags: ["admin"],
+        summary: "Monthly partitions of transactions, transfers and validator_snapshots",
+        description:
+          "Partitions hold every network. `month` is null for the default partition, which holds rows the partitions job has not moved into a month yet.",
+      },
+    },
+    async (_req, reply) => {
+      const data = await listPartitions();
+      return reply.send({ count: data.length, data });
+    },
+  );
+
+  // POST /api/admin/partitions/:table/:month/detach
+  server.post(
+    "/admin/partitions/:table/:month/detach",
+    {
+      schema: {
+        tags: ["admin"],
+        summary: "Detach one month for archiving",
+        description:
+          "The partition becomes a standalone table named `<table>_<yyyy>_<mm>_detached` and its rows disappear from the API. Nothing is rewritten; dump the table, then drop it. Rows later ingested for that month get a new partition from the partitions job. 409 while an earlier detached copy of the month still exists.",
+        params: {
+          type: "object",
+          properties: {
+            table: { type: "string", enum: PARTITIONED_TABLES },
+            month: { type: "string", description: "YYYY-MM" },
+          },
+          required: ["table", "month"],
+        },
+      },
+    },
+    async (req, reply) => {
+      const params = req.params as { table: PartitionedTable; month: string };
+      const month = parseMonth(params.month);
+      if (!month) {
+        return reply.status(400).send({ error: "Invalid month — expected YYYY-MM" });
+      }
+      let archive: string | null;
+      try {
+        archive = await detachPartition(params.table, month);
+      } catch (err) {
+        if (!(err instanceof DetachedPartitionExistsError)) throw err;
+        return reply.status(409).send({ error: err.message });
+      }
+      if (!archive) {
+        return reply.status(404).send({ error: "No attached partition for that month" });
+      }
+      return reply.send({ table: params.table, month: params.month, detached: archive });
+    },
+  );
+}
+
+function view(run: BackfillRun) {
+  return {
+    network: run.options.network ?? config.network,
+    running: run.finishedAt === null,
+    started_at: run.startedAt,
+    finished_at: run.finishedAt,
+    options: run.options,
+    progress: Object.values(run.progress),
+  };
+}
@@ -0,0 +1,41 @@
+import { FastifyInstance } from "fastify";
+import { analytics } from "../../storage/repositories/index.js";
+
+export async function registerAnalyticsRoutes(server: FastifyInstance): Promise<void> {
+  // GET /api/analytics/daily — custom: daily rollups kept by the analytics job
+  server.get(
+    "/analytics/daily",
+    {
+      schema: {
+        tags: ["analytics"],
+        summary: "Daily network activity and reward totals",
+        description:
+          "One row per UTC day: transactions, transfers (count, volume, unique senders and " +
+          "receivers), rewards of the tracked parties by type and active validators. " +
+          "upstream_tx_count is Lighthouse's own daily count. Refreshed every POLL_ANALYTICS_SEC.",
+        querystring: {
+          type: "object",
+          properties: {
+            limit: { type: "integer", default: 30, minimum: 1, maximum: 366 },
+            from: {
+              type: "string",
+              format: "date",
+              description: "First day, YYYY-MM-DD (inclusive)",
+            },
+            to: { type: "string", format: "date", description: "Last day, YYYY-MM-DD (inclusive)" },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const q = req.query as Record<string, unknown>;
+      const limit = Math.min(Number(q["limit"] ?? 30), 366);
+      const from = q["from"] as string | undefined;
+      const to = q["to"] as string | undefined;
+
+      const rows = await analytics.daily({ network: req.network, from, to, limit });
+
+      return reply.send({ network: req.network, count: rows.length, data: rows });
+    },
+  );
+}
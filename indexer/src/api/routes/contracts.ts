@@ -0,0 +1,109 @@
+import { FastifyInstance } from "fastify";
+import { lighthouseFor, LighthouseContract } from "../../collectors/lighthouse.js";
+import { contracts } from "../../storage/repositories/index.js";
+
+// Live results are filtered in-process — Lighthouse /api/contracts has no filters
+function matchesLive(c: LighthouseContract, templateId?: string, party?: string): boolean {
+  if (templateId && c.template_id !== templateId) return false;
+  if (party && !JSON.stringify(c.payload ?? {}).includes(JSON.stringify(party))) return false;
+  return true;
+}
+
+export async function registerContractRoutes(server: FastifyInstance): Promise<void> {
+  // GET /api/contracts
+  server.get(
+    "/contracts",
+    {
+      schema: {
+        tags: ["contracts"],
+        summary: "List active contracts",
+        querystring: {
+          type: "object",
+          properties: {
+            limit: { type: "integer", default: 50, maximum: 500 },
+            template_id: { type: "string", description: "Filter by exact template ID" },
+            party: {
+              type: "string",
+              description: "Filter by party ID appearing anywhere in the contract payload",
+            },
+            live: { type: "boolean", description: "Force live fetch from Lighthouse" },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const q = req.query as Record<string, unknown>;
+      const live = q["live"] === true || q["live"] === "true";
+      const limit = Math.min(Number(q["limit"] ?? 50), 500);
+      const templateId = q["template_id"] as string | undefined;
+      const party = q["party"] as string | undefined;
+
+      if (!live) {
+        const rows = await contracts.list({ network: req.network, limit, templateId, party });
+        if (rows.length > 0) {
+          return reply.send({
+            network: req.network,
+            count: rows.length,
+            source: "indexed",
+            data: rows,
+          });
+        }
+      }
+
+      const res = await lighthouseFor(req.network).getContracts({ page_size: limit });
+      if (!res.ok) {
+        return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
+      }
+      const data = (res.data.contracts ?? []).filter((c) => matchesLive(c, templateId, party));
+      return reply.send({
+        network: req.network,
+        count: data.length,
+        source: "lighthouse",
+        upstream: res.upstream,
+        data,
+      });
+    },
+  );
+
+  // GET /api/contracts/:id
+  server.get<{ Params: { id: string } }>(
+    "/contracts/:id",
+    {
+      schema: {
+        tags: ["contracts"],
+        summary: "Get contract by contract ID",
+        params: {
+          type: "object",
+          properties: { id: { type: "string" } },
+          required: ["id"],
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            live: { type: "boolean", description: "Force live fetch from Lighthouse" },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const { id } = req.params;
+      const q = req.query as Record<string, unknown>;
+      const live = q["live"] === true || q["live"] === "true";
+
+      if (!live) {
+        const row = await contracts.get(req.network, id);
+        if (row) return reply.send(row);
+      }
+
+      const res = await lighthouseFor(req.network).getContract(id);
+      if (!res.ok) {
+        const status = res.status === 404 ? 404 : 502;
+        return reply.status(status).send({
+          error: res.status === 404 ? "Not found" : "Upstream unavailable",
+          detail: res.error,
+        });
+      }
+      return reply.send({ ...res.data, network: req.network, upstream: res.upstream });
+    },
+  );
+}
@@ -1,7 +1,6 @@
 import { FastifyInstance } from 'fastify';
 import { queryRows, queryOne } from '../../storage/db.js';
-import { lighthouse } from '../../collectors/lighthouse.js';
-import { config } from '../../config.js';
+import { lighthouseFor } from '../../collectors/lighthouse.js';
 
 export async function registerGovernanceRoutes(server: FastifyInstance): Promise<void> {
   // GET /api/governance
@@ -29,19 +28,19 @@ export async function registerGovernanceRoutes(server: FastifyInstance): Promise
          WHERE network = $1
          ORDER BY captured_at DESC
          LIMIT $2`,
-        [config.network, limit],
+        [req.network, limit],
       );
       if (rows.length > 0) {
-        return reply.send({ network: config.network, count: rows.length, source: 'indexed', data: rows });
+        return reply.send({ network: req.network, count: rows.length, source: 'indexed', data: rows });
       }
     }
 
-    const res = await lighthouse.getGovernanceVotes({ page_size: String(limit) } as never);
+    const res = await lighthouseFor(req.network).getGovernanceVotes({ page_size: String(limit) } as never);
     if (!res.ok) {
       return reply.status(502).send({ error: 'Upstream unavailable', detail: res.error });
     }
     const data = Array.isArray(res.data) ? res.data : [];
-    return reply.send({ network: config.network, count: data.length, source: 'lighthouse', data });
+    return reply.send({ network: req.network, count: data.length, source: 'lighthouse', upstream: res.upstream, data });
   });
 
   // GET /api/governance/stats
@@ -67,18 +66,18 @@ export async function registerGovernanceRoutes(server: FastifyInstance): Promise
          WHERE network = $1
          ORDER BY captured_at DESC
          LIMIT 1`,
-        [config.network],
+        [req.network],
       );
       if (row) {
         return reply.send({ ...row.raw as object, _cached_at: row.captured_at });
       }
     }
 
-    const res = await lighthouse.getGovernanceStats();
+    const res = await lighthouseFor(req.network).getGovernanceStats();
     if (!res.ok) {
       return reply.status(502).send({ error: 'Upstream unavailable', detail: res.error });
     }
-    return reply.send(res.data);
+    return reply.send(Object.assign({}, res.data as object, { upstream: res.upstream }));
   });
 
   // GET /api/governance/:id
@@ -99,11 +98,11 @@ export async function registerGovernanceRoutes(server: FastifyInstance): Promise
       `SELECT id, captured_at, raw
        FROM governance_votes
        WHERE id = $1 AND network = $2`,
-      [id, config.network],
+      [id, req.network],
     );
     if (row) return reply.send(row);
 
-    const res = await lighthouse.getGovernanceVote(id);
+    const res = await lighthouseFor(req.network).getGovernanceVote(id);
     if (!res.ok) {
       const status = res.status === 404 ? 404 : 502;
       return reply.status(status).send({
@@ -111,6 +110,6 @@ export async function registerGovernanceRoutes(server: FastifyInstance): Promise
         detail: res.error,
       });
     }
-    return reply.send(res.data);
+    return reply.send({ ...res.data, upstream: res.upstream });
   });
 }
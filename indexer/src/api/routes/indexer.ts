@@ -0,0 +1,151 @@
+import { FastifyInstance } from "fastify";
+import { listCheckpoints } from "../../storage/checkpoints.js";
+import { GapKind, listGaps } from "../../storage/gaps.js";
+import { listJobRuns, listJobs } from "../../storage/jobs.js";
+import { drift } from "../../storage/repositories/index.js";
+
+export async function registerIndexerRoutes(server: FastifyInstance): Promise<void> {
+  // GET /api/indexer/checkpoints
+  server.get(
+    "/indexer/checkpoints",
+    {
+      schema: {
+        tags: ["indexer"],
+        summary: "Ingestion checkpoints per stream",
+        description:
+          "How far each incremental stream has been ingested. `behind` is true while an interrupted walk still has a gap to close (resume_cursor is set).",
+      },
+    },
+    async (req, reply) => {
+      const checkpoints = await listCheckpoints(req.network);
+      const now = Date.now();
+
+      return reply.send({
+        network: req.network,
+        count: checkpoints.length,
+        data: checkpoints.map((cp) => ({
+          job: cp.job,
+          last_seq: cp.lastSeq,
+          last_round: cp.lastRound,
+          behind: cp.resumeCursor !== null,
+          resume_cursor: cp.resumeCursor,
+          pending_seq: cp.pendingSeq,
+          last_synced_at: cp.lastSyncedAt,
+          lag_seconds: cp.lastSyncedAt
+            ? Math.round((now - new Date(cp.lastSyncedAt).getTime()) / 1000)
+            : null,
+          updated_at: cp.updatedAt,
+        })),
+      });
+    },
+  );
+
+  // GET /api/indexer/schema-drift
+  server.get(
+    "/indexer/schema-drift",
+    {
+      schema: {
+        tags: ["indexer"],
+        summary: "Upstream payloads that no longer match the response types",
+        description:
+          "Each row is one drift at one JSON path of one endpoint: `missing_field` (a required field is absent), `type_changed` (a field has a different JSON type) or `new_field` (a field the types do not declare). `occurrences` counts the responses that showed it.",
+        querystring: {
+          type: "object",
+          properties: {
+            limit: { type: "integer", default: 100, maximum: 1000 },
+            source: { type: "string", description: "Upstream, e.g. lighthouse" },
+            endpoint: { type: "string", description: "e.g. /api/transactions" },
+            kind: { type: "string", enum: ["missing_field", "type_changed", "new_field"] },
+            since: { type: "string", description: "ISO8601 — only drift seen since then" },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const q = req.query as Record<string, unknown>;
+      const rows = await drift.list({
+        network: req.network,
+        limit: Math.min(Number(q["limit"] ?? 100), 1000),
+        source: q["source"] as string | undefined,
+        endpoint: q["endpoint"] as string | undefined,
+        kind: q["kind"] as string | undefined,
+        since: q["since"] as string | undefined,
+      });
+      return reply.send({ network: req.network, count: rows.length, data: rows });
+    },
+  );
+
+  // GET /api/indexer/jobs
+  server.get(
+    "/indexer/jobs",
+    {
+      schema: {
+        tags: ["indexer"],
+        summary: "Scheduler jobs with their latest run and failure streak",
+        description:
+          "One row per scheduler job. `consecutive_failures` counts failed runs since `last_success_at`; `runs_24h` and `failures_24h` cover the last 24 hours.",
+      },
+    },
+    async (req, reply) => {
+      const jobs = await listJobs(req.network);
+      return reply.send({ network: req.network, count: jobs.length, data: jobs });
+    },
+  );
+
+  // GET /api/indexer/jobs/:name/runs
+  server.get(
+    "/indexer/jobs/:name/runs",
+    {
+      schema: {
+        tags: ["indexer"],
+        summary: "Recent runs of one scheduler job",
+        params: {
+          type: "object",
+          properties: { name: { type: "string", description: "Job name, e.g. transactions" } },
+          required: ["name"],
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            limit: { type: "integer", default: 50, maximum: 500 },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const { name } = req.params as { name: string };
+      const q = req.query as Record<string, unknown>;
+      const runs = await listJobRuns(name, req.network, Math.min(Number(q["limit"] ?? 50), 500));
+      return reply.send({ network: req.network, job: name, count: runs.length, data: runs });
+    },
+  );
+
+  // GET /api/indexer/gaps
+  server.get(
+    "/indexer/gaps",
+    {
+      schema: {
+        tags: ["indexer"],
+        summary: "History the consistency job could not repair",
+        description:
+          "`round`: a round missing from the stored sequence whose refetch failed (`attempts`, `last_error`); retried until GAP_REPAIR_ATTEMPTS. `round_transactions`: a round with fewer stored transactions (`found`) than its `total_tx` (`expected`) — fill it with a backfill over that round range.",
+        querystring: {
+          type: "object",
+          properties: {
+            kind: { type: "string", enum: ["round", "round_transactions"] },
+            limit: { type: "integer", default: 100, maximum: 1000 },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const q = req.query as Record<string, unknown>;
+      const gaps = await listGaps(
+        req.network,
+        q["kind"] as GapKind | undefined,
+        Math.min(Number(q["limit"] ?? 100), 1000),
+      );
+      return reply.send({ network: req.network, count: gaps.length, data: gaps });
+    },
+  );
+}
@@ -1,7 +1,7 @@
 import { FastifyInstance } from "fastify";
 import { queryRows, queryOne } from "../../storage/db.js";
-import { lighthouse } from "../../collectors/lighthouse.js";
-import { config } from "../../config.js";
+import { lighthouseFor } from "../../collectors/lighthouse.js";
+import { fromSources } from "../../collectors/sources.js";
 
 export async function registerMiscRoutes(server: FastifyInstance): Promise<void> {
   // GET /api/cns
@@ -29,16 +29,16 @@ export async function registerMiscRoutes(server: FastifyInstance): Promise<void>
 
       if (!live) {
         const rows = await queryRows<Record<string, unknown>>(
-          `SELECT domain, party_id, captured_at, raw
+          `SELECT domain, party_id, source, captured_at, raw
          FROM cns_records
          WHERE network = $1
          ORDER BY captured_at DESC
          LIMIT $2`,
-          [config.network, limit],
+          [req.network, limit],
         );
         if (rows.length > 0) {
           return reply.send({
-            network: config.network,
+            network: req.network,
             count: rows.length,
             source: "indexed",
             data: rows,
@@ -46,15 +46,18 @@ export async function registerMiscRoutes(server: FastifyInstance): Promise<void>
         }
       }
 
-      const res = await lighthouse.getCnsRecords({ page_size: String(limit) } as never);
+      const res = await lighthouseFor(req.network).getCnsRecords({
+        page_size: String(limit),
+      } as never);
       if (!res.ok) {
         return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
       }
       const data = Array.isArray(res.data) ? res.data : [];
       return reply.send({
-        network: config.network,
+        network: req.network,
         count: data.length,
         source: "lighthouse",
+        upstream: res.upstream,
         data,
       });
     },
@@ -78,13 +81,14 @@ export async function registerMiscRoutes(server: FastifyInstance): Promise<void>
       const { domain } = req.params;
 
       const row = await queryOne<Record<string, unknown>>(
-        `SELECT domain, party_id, captured_at, raw
+        `SELECT domain, party_id, source, captured_at, raw
        FROM cns_records WHERE domain = $1 AND network = $2`,
-        [domain, config.network],
+        [domain, req.network],
       );
       if (row) return reply.send(row);
 
-      const res = await lighthouse.getCnsRecord(domain);
+      // Scan is the authoritative ANS registry; Lighthouse mirrors cover the rest
+      const res = await fromSources(req.network, (s) => s.lookupName(domain));
       if (!res.ok) {
         const status = res.status === 404 ? 404 : 502;
         return reply.status(status).send({
@@ -92,7 +96,7 @@ export async function registerMiscRoutes(server: FastifyInstance): Promise<void>
           detail: res.error,
         });
       }
-      return reply.send(res.data);
+      return reply.send({ ...res.data, source: res.source, upstream: res.upstream });
     },
   );
 
@@ -121,11 +125,11 @@ export async function registerMiscRoutes(server: FastifyInstance): Promise<void>
          FROM featured_apps
          WHERE network = $1
          ORDER BY captured_at DESC`,
-          [config.network],
+          [req.network],
         );
         if (rows.length > 0) {
           return reply.send({
-            network: config.network,
+            network: req.network,
             count: rows.length,
             source: "indexed",
             data: rows,
@@ -133,15 +137,16 @@ export async function registerMiscRoutes(server: FastifyInstance): Promise<void>
         }
       }
 
-      const res = await lighthouse.getFeaturedApps();
+      const res = await lighthouseFor(req.network).getFeaturedApps();
       if (!res.ok) {
         return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
       }
       const data = Array.isArray(res.data) ? res.data : [];
       return reply.send({
-        network: config.network,
+        network: req.network,
         count: data.length,
         source: "lighthouse",
+        upstream: res.upstream,
         data,
       });
     },
@@ -175,11 +180,11 @@ export async function registerMiscRoutes(server: FastifyInstance): Promise<void>
          WHERE network = $1
          ORDER BY captured_at DESC
          LIMIT $2`,
-          [config.network, limit],
+          [req.network, limit],
         );
         if (rows.length > 0) {
           return reply.send({
-            network: config.network,
+            network: req.network,
             count: rows.length,
             source: "indexed",
             data: rows,
@@ -187,15 +192,18 @@ export async function registerMiscRoutes(server: FastifyInstance): Promise<void>
         }
       }
 
-      const res = await lighthouse.getPreapprovals({ page_size: String(limit) } as never);
+      const res = await lighthouseFor(req.network).getPreapprovals({
+        page_size: String(limit),
+      } as never);
       if (!res.ok) {
         return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
       }
       const data = Array.isArray(res.data) ? res.data : [];
       return reply.send({
-        network: config.network,
+        network: req.network,
         count: data.length,
         source: "lighthouse",
+        upstream: res.upstream,
         data,
       });
     },
@@ -226,7 +234,7 @@ export async function registerMiscRoutes(server: FastifyInstance): Promise<void>
       // Run local DB search and Lighthouse search in parallel
       const [localResults, lighthouseRes] = await Promise.allSettled([
         searchLocal(q),
-        lighthouse.search(q),
+        lighthouseFor(req.network).search(q),
       ]);
 
       const local = localResults.status === "fulfilled" ? localResults.value : [];
@@ -236,7 +244,7 @@ export async function registerMiscRoutes(server: FastifyInstance): Promise<void>
           : null;
 
       return reply.send({
-        network: config.network,
+        network: req.network,
         query: q,
         indexed: { count: local.length, data: local },
         lighthouse: remote,
@@ -255,10 +263,10 @@ export async function registerMiscRoutes(server: FastifyInstance): Promise<void>
           "Combines Lighthouse stats, validator count, latest round, and price data into a single health snapshot.",
       },
     },
-    async (_req, reply) => {
+    async (req, reply) => {
       const [statsRes, validatorsRes] = await Promise.allSettled([
-        lighthouse.getStats(),
-        lighthouse.getValidators({ page_size: "200" }),
+        lighthouseFor(req.network).getStats(),
+        lighthouseFor(req.network).getValidators({ page_size: "200" }),
       ]);
 
       const stats =
@@ -272,7 +280,7 @@ export async function registerMiscRoutes(server: FastifyInstance): Promise<void>
       const activeValidators = validatorList.filter((v) => v.last_active_at).length;
 
       return reply.send({
-        network: config.network,
+        network: req.network,
         status: stats !== null ? "ok" : "down",
         checked_at: new Date().toISOString(),
         stats: stats
@@ -1,7 +1,6 @@
 import { FastifyInstance } from "fastify";
-import { queryRows, queryOne } from "../../storage/db.js";
-import { lighthouse } from "../../collectors/lighthouse.js";
-import { config } from "../../config.js";
+import { lighthouseFor } from "../../collectors/lighthouse.js";
+import { rewards, transfers } from "../../storage/repositories/index.js";
 
 export async function registerPartyRoutes(server: FastifyInstance): Promise<void> {
   // GET /api/parties/:id/balance
@@ -26,22 +25,8 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
     },
     async (req, reply) => {
       const { id } = req.params;
-      const q = req.query as Record<string, unknown>;
-      const live = q["live"] === true || q["live"] === "true";
-
-      if (!live) {
-        // Check if we have a recent cached balance (within 2 minutes)
-        const row = await queryOne<{ price_usd: string; captured_at: string }>(
-          `SELECT raw, captured_at FROM stats_snapshots
-         WHERE network = $1 AND captured_at > NOW() - INTERVAL '2 minutes'
-         LIMIT 1`,
-          [config.network],
-        );
-        // Balance isn't stored separately — always fetch live but with graceful error
-        void row; // suppress unused warning
-      }
-
-      const res = await lighthouse.getPartyBalance(id);
+      // Balances are not indexed: `live` is accepted, but every request goes upstream
+      const res = await lighthouseFor(req.network).getPartyBalance(id);
       if (!res.ok) {
         const status = res.status === 404 ? 404 : res.status === 500 ? 404 : 502;
         return reply.status(status).send({
@@ -50,7 +35,9 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
           party_id: id,
         });
       }
-      return reply.send(Object.assign({}, res.data as object, { network: config.network }));
+      return reply.send(
+        Object.assign({}, res.data as object, { network: req.network, upstream: res.upstream }),
+      );
     },
   );
 
@@ -75,7 +62,8 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
             aggregate: {
               type: "string",
               enum: ["day", "week", "month"],
-              description: "Aggregate rewards by period",
+              description:
+                "Aggregate rewards by period (daily aggregates: from/to match whole days)",
             },
             live: { type: "boolean", description: "Force live fetch from Lighthouse" },
           },
@@ -89,37 +77,12 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
       const limit = Math.min(Number(q["limit"] ?? 100), 500);
       const from = q["from"] as string | undefined;
       const to = q["to"] as string | undefined;
-      const aggregate = q["aggregate"] as string | undefined;
+      const aggregate = q["aggregate"] as rewards.RewardPeriod | undefined;
 
       if (!live) {
-        const params: unknown[] = [id, config.network, limit];
-        let where = "WHERE party_id = $1 AND network = $2";
-        if (from) {
-          params.push(from);
-          where += ` AND created_at >= $${params.length}`;
-        }
-        if (to) {
-          params.push(to);
-          where += ` AND created_at <= $${params.length}`;
-        }
-
+        const opts = { network: req.network, partyId: id, from, to, limit };
         if (aggregate) {
-          const truncUnit = aggregate === "day" ? "day" : aggregate === "week" ? "week" : "month";
-          const aggRows = await queryRows<{
-            period: string;
-            total_amount: string;
-            round_count: number;
-          }>(
-            `SELECT
-             DATE_TRUNC('${truncUnit}', created_at) AS period,
-             SUM(amount)::TEXT                       AS total_amount,
-             COUNT(*)::INTEGER                       AS round_count
-           FROM rewards ${where}
-           GROUP BY DATE_TRUNC('${truncUnit}', created_at)
-           ORDER BY period DESC
-           LIMIT $3`,
-            params,
-          );
+          const aggRows = await rewards.byPeriod({ ...opts, period: aggregate });
           if (aggRows.length > 0) {
             const totalAmount = aggRows.reduce(
               (acc, r) => acc + parseFloat(r.total_amount ?? "0"),
@@ -127,7 +90,7 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
             );
             return reply.send({
               party_id: id,
-              network: config.network,
+              network: req.network,
               aggregate,
               total_amount: totalAmount.toFixed(10),
               count: aggRows.length,
@@ -136,18 +99,12 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
             });
           }
         } else {
-          const rows = await queryRows<{ round: number; amount: string; created_at: string }>(
-            `SELECT round, amount, created_at, captured_at
-           FROM rewards ${where}
-           ORDER BY round DESC NULLS LAST
-           LIMIT $3`,
-            params,
-          );
+          const rows = await rewards.list(opts);
           if (rows.length > 0) {
             const totalAmount = rows.reduce((acc, r) => acc + parseFloat(r.amount ?? "0"), 0);
             return reply.send({
               party_id: id,
-              network: config.network,
+              network: req.network,
               total_amount: totalAmount.toFixed(10),
               count: rows.length,
               source: "indexed",
@@ -158,16 +115,19 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
       }
 
       // Fallback to Lighthouse
-      const res = await lighthouse.getPartyRewards(id, { page_size: String(limit) } as never);
+      const res = await lighthouseFor(req.network).getPartyRewards(id, {
+        page_size: String(limit),
+      } as never);
       if (!res.ok) {
         return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
       }
       const data = Array.isArray(res.data) ? res.data : [];
       return reply.send({
         party_id: id,
-        network: config.network,
+        network: req.network,
         count: data.length,
         source: "lighthouse",
+        upstream: res.upstream,
         data,
       });
     },
@@ -191,22 +151,8 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
       const { id } = req.params;
 
       const [dbStats, liveStats] = await Promise.allSettled([
-        queryOne<{
-          total_amount: string;
-          round_count: number;
-          first_reward: string;
-          last_reward: string;
-        }>(
-          `SELECT
-           SUM(amount)::TEXT  AS total_amount,
-           COUNT(*)::INTEGER  AS round_count,
-           MIN(created_at)    AS first_reward,
-           MAX(created_at)    AS last_reward
-         FROM rewards
-         WHERE party_id = $1 AND network = $2`,
-          [id, config.network],
-        ),
-        lighthouse.getPartyRewardStats(id),
+        rewards.totals(req.network, id),
+        lighthouseFor(req.network).getPartyRewardStats(id),
       ]);
 
       const db = dbStats.status === "fulfilled" ? dbStats.value : null;
@@ -215,7 +161,7 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
 
       return reply.send({
         party_id: id,
-        network: config.network,
+        network: req.network,
         indexed: db
           ? {
               total_amount: db.total_amount,
@@ -259,32 +205,17 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
       const direction = (q["direction"] as string) ?? "all";
 
       if (!live) {
-        let where = "WHERE network = $1";
-        const params: unknown[] = [config.network, limit];
-
-        if (direction === "sent") {
-          params.push(id);
-          where += ` AND sender = $${params.length}`;
-        } else if (direction === "received") {
-          params.push(id);
-          where += ` AND receiver = $${params.length}`;
-        } else {
-          params.push(id);
-          params.push(id);
-          where += ` AND (sender = $${params.length - 1} OR receiver = $${params.length})`;
-        }
-
-        const rows = await queryRows<Record<string, unknown>>(
-          `SELECT id, sender, receiver, amount, created_at, captured_at
-         FROM transfers ${where}
-         ORDER BY created_at DESC NULLS LAST
-         LIMIT $2`,
-          params,
-        );
+        const { rows } = await transfers.list({
+          network: req.network,
+          sender: direction === "sent" ? id : undefined,
+          receiver: direction === "received" ? id : undefined,
+          party: direction === "all" ? id : undefined,
+          limit,
+        });
         if (rows.length > 0) {
           return reply.send({
             party_id: id,
-            network: config.network,
+            network: req.network,
             count: rows.length,
             source: "indexed",
             data: rows,
@@ -292,16 +223,19 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
         }
       }
 
-      const res = await lighthouse.getPartyTransfers(id, { page_size: String(limit) } as never);
+      const res = await lighthouseFor(req.network).getPartyTransfers(id, {
+        page_size: String(limit),
+      } as never);
       if (!res.ok) {
         return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
       }
       const data = Array.isArray(res.data) ? res.data : [];
       return reply.send({
         party_id: id,
-        network: config.network,
+        network: req.network,
         count: data.length,
         source: "lighthouse",
+        upstream: res.upstream,
         data,
       });
     },
@@ -332,12 +266,20 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
       const q = req.query as Record<string, unknown>;
       const limit = Math.min(Number(q["limit"] ?? 50), 500);
 
-      const res = await lighthouse.getPartyTransactions(id, { page_size: String(limit) } as never);
+      const res = await lighthouseFor(req.network).getPartyTransactions(id, {
+        page_size: String(limit),
+      } as never);
       if (!res.ok) {
         return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
       }
       const data = Array.isArray(res.data) ? res.data : [];
-      return reply.send({ party_id: id, network: config.network, count: data.length, data });
+      return reply.send({
+        party_id: id,
+        network: req.network,
+        count: data.length,
+        upstream: res.upstream,
+        data,
+      });
     },
   );
 
@@ -357,11 +299,16 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
     },
     async (req, reply) => {
       const { id } = req.params;
-      const res = await lighthouse.getPartyPnl(id);
+      const res = await lighthouseFor(req.network).getPartyPnl(id);
       if (!res.ok) {
         return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
       }
-      return reply.send({ party_id: id, network: config.network, data: res.data });
+      return reply.send({
+        party_id: id,
+        network: req.network,
+        upstream: res.upstream,
+        data: res.data,
+      });
     },
   );
 
@@ -390,12 +337,20 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
       const q = req.query as Record<string, unknown>;
       const limit = Math.min(Number(q["limit"] ?? 50), 500);
 
-      const res = await lighthouse.getPartyBurns(id, { page_size: String(limit) } as never);
+      const res = await lighthouseFor(req.network).getPartyBurns(id, {
+        page_size: String(limit),
+      } as never);
       if (!res.ok) {
         return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
       }
       const data = Array.isArray(res.data) ? res.data : [];
-      return reply.send({ party_id: id, network: config.network, count: data.length, data });
+      return reply.send({
+        party_id: id,
+        network: req.network,
+        count: data.length,
+        upstream: res.upstream,
+        data,
+      });
     },
   );
 
@@ -415,11 +370,16 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
     },
     async (req, reply) => {
       const { id } = req.params;
-      const res = await lighthouse.getPartyBurnStats(id);
+      const res = await lighthouseFor(req.network).getPartyBurnStats(id);
       if (!res.ok) {
         return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
       }
-      return reply.send({ party_id: id, network: config.network, data: res.data });
+      return reply.send({
+        party_id: id,
+        network: req.network,
+        upstream: res.upstream,
+        data: res.data,
+      });
     },
   );
 
@@ -431,7 +391,8 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
         tags: ["parties"],
         summary: "Top reward earners leaderboard",
         description:
-          "Rankings based on indexed reward history. Requires data to have been collected.",
+          "Rankings based on the daily reward aggregates; from/to match whole UTC days. " +
+          "Requires data to have been collected and refreshed by the analytics job.",
         querystring: {
           type: "object",
           properties: {
@@ -448,37 +409,10 @@ export async function registerPartyRoutes(server: FastifyInstance): Promise<void
       const from = q["from"] as string | undefined;
       const to = q["to"] as string | undefined;
 
-      const params: unknown[] = [config.network, limit];
-      let where = "WHERE network = $1";
-      if (from) {
-        params.push(from);
-        where += ` AND created_at >= $${params.length}`;
-      }
-      if (to) {
-        params.push(to);
-        where += ` AND created_at <= $${params.length}`;
-      }
-
-      const rows = await queryRows<{
-        party_id: string;
-        total_amount: string;
-        round_count: number;
-        last_reward_at: string;
-      }>(
-        `SELECT
-         party_id,
-         SUM(amount)::TEXT  AS total_amount,
-         COUNT(*)::INTEGER  AS round_count,
-         MAX(created_at)    AS last_reward_at
-       FROM rewards ${where}
-       GROUP BY party_id
-       ORDER BY SUM(amount) DESC NULLS LAST
-       LIMIT $2`,
-        params,
-      );
+      const rows = await rewards.leaderboard({ network: req.network, from, to, limit });
 
       return reply.send({
-        network: config.network,
+        network: req.network,
         count: rows.length,
         data: rows.map((r, i) => ({ rank: i + 1, ...r })),
       });
@@ -1,7 +1,6 @@
 import { FastifyInstance } from 'fastify';
-import { queryRows, queryOne } from '../../storage/db.js';
-import { lighthouse } from '../../collectors/lighthouse.js';
-import { config } from '../../config.js';
+import { lighthouseFor } from '../../collectors/lighthouse.js';
+import { rounds } from '../../storage/repositories/index.js';
 
 export async function registerRoundRoutes(server: FastifyInstance): Promise<void> {
   // GET /api/rounds
@@ -27,29 +26,18 @@ export async function registerRoundRoutes(server: FastifyInstance): Promise<void
     const to    = q['to']   as string | undefined;
 
     if (!live) {
-      const params: unknown[] = [config.network, limit];
-      let where = 'WHERE network = $1';
-      if (from) { params.push(from); where += ` AND created_at >= $${params.length}`; }
-      if (to)   { params.push(to);   where += ` AND created_at <= $${params.length}`; }
-
-      const rows = await queryRows<Record<string, unknown>>(
-        `SELECT round, created_at, captured_at, raw
-         FROM rounds ${where}
-         ORDER BY round DESC
-         LIMIT $2`,
-        params,
-      );
+      const rows = await rounds.list({ network: req.network, from, to, limit });
       if (rows.length > 0) {
-        return reply.send({ network: config.network, count: rows.length, source: 'indexed', data: rows });
+        return reply.send({ network: req.network, count: rows.length, source: 'indexed', data: rows });
       }
     }
 
-    const res = await lighthouse.getRounds({ page_size: String(limit) } as never);
+    const res = await lighthouseFor(req.network).getRounds({ page_size: String(limit) } as never);
     if (!res.ok) {
       return reply.status(502).send({ error: 'Upstream unavailable', detail: res.error });
     }
     const data = Array.isArray(res.data) ? res.data : [];
-    return reply.send({ network: config.network, count: data.length, source: 'lighthouse', data });
+    return reply.send({ network: req.network, count: data.length, source: 'lighthouse', upstream: res.upstream, data });
   });
 
   // GET /api/rounds/:number
@@ -69,14 +57,10 @@ export async function registerRoundRoutes(server: FastifyInstance): Promise<void
       return reply.status(400).send({ error: 'Invalid round number' });
     }
 
-    const row = await queryOne<Record<string, unknown>>(
-      `SELECT round, created_at, captured_at, raw
-       FROM rounds WHERE round = $1 AND network = $2`,
-      [roundNum, config.network],
-    );
+    const row = await rounds.get(req.network, roundNum);
     if (row) return reply.send(row);
 
-    const res = await lighthouse.getRound(roundNum);
+    const res = await lighthouseFor(req.network).getRound(roundNum);
     if (!res.ok) {
       const status = res.status === 404 ? 404 : 502;
       return reply.status(status).send({
@@ -84,6 +68,6 @@ export async function registerRoundRoutes(server: FastifyInstance): Promise<void
         detail: res.error,
       });
     }
-    return reply.send(res.data);
+    return reply.send({ ...res.data, upstream: res.upstream });
   });
 }
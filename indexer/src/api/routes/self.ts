@@ -0,0 +1,225 @@
+import { FastifyInstance } from "fastify";
+import { validatorApi } from "../../collectors/validator.js";
+import { config } from "../../config.js";
+import { self } from "../../storage/repositories/index.js";
+
+// The operator's own validator wallet, from the local Validator API
+export async function registerSelfRoutes(server: FastifyInstance): Promise<void> {
+  // Scoped to this plugin: nothing to serve without a configured validator
+  server.addHook("onRequest", async (req, reply) => {
+    if (!config.validatorApi.enabled) {
+      return reply
+        .status(404)
+        .send({ error: "Validator API disabled — set VALIDATOR_API_ENABLED" });
+    }
+    // The validator belongs to the default network
+    if (req.network !== config.network) {
+      return reply.status(404).send({ error: `No own validator on ${req.network}` });
+    }
+  });
+
+  // GET /api/self/balance
+  server.get(
+    "/self/balance",
+    {
+      schema: {
+        tags: ["self"],
+        summary: "Latest wallet balance of our own party",
+        querystring: {
+          type: "object",
+          properties: {
+            live: { type: "boolean", description: "Force live fetch from the Validator API" },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const q = req.query as Record<string, unknown>;
+      const live = q["live"] === true || q["live"] === "true";
+
+      if (!live) {
+        const row = await self.latestBalance(config.network);
+        if (row) return reply.send({ network: config.network, source: "indexed", data: row });
+      }
+
+      const res = await validatorApi.getBalance();
+      if (!res.ok) {
+        return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
+      }
+      return reply.send({ network: config.network, source: "validator", data: res.data });
+    },
+  );
+
+  // GET /api/self/balance/history
+  server.get(
+    "/self/balance/history",
+    {
+      schema: {
+        tags: ["self"],
+        summary: "Wallet balance snapshots over time",
+        querystring: {
+          type: "object",
+          properties: {
+            limit: { type: "integer", default: 100, maximum: 1000 },
+            from: { type: "string", description: "ISO8601 start date" },
+            to: { type: "string", description: "ISO8601 end date" },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const q = req.query as Record<string, unknown>;
+      const limit = Math.min(Number(q["limit"] ?? 100), 1000);
+      const rows = await self.balanceHistory({
+        network: config.network,
+        limit,
+        from: q["from"] as string | undefined,
+        to: q["to"] as string | undefined,
+      });
+      return reply.send({ network: config.network, count: rows.length, data: rows });
+    },
+  );
+
+  // GET /api/self/transfer-offers
+  server.get(
+    "/self/transfer-offers",
+    {
+      schema: {
+        tags: ["self"],
+        summary: "Transfer offers sent or received by our own party",
+        querystring: {
+          type: "object",
+          properties: {
+            limit: { type: "integer", default: 50, maximum: 500 },
+            active: {
+              type: "boolean",
+              default: true,
+              description: "Only offers still open in the wallet; false = all seen offers",
+            },
+            live: { type: "boolean", description: "Force live fetch from the Validator API" },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const q = req.query as Record<string, unknown>;
+      const live = q["live"] === true || q["live"] === "true";
+      const limit = Math.min(Number(q["limit"] ?? 50), 500);
+      const activeOnly = !(q["active"] === false || q["active"] === "false");
+
+      if (!live) {
+        const rows = await self.transferOffers({ network: config.network, limit, activeOnly });
+        if (rows.length > 0) {
+          return reply.send({
+            network: config.network,
+            count: rows.length,
+            source: "indexed",
+            data: rows,
+          });
+        }
+      }
+
+      const res = await validatorApi.getTransferOffers();
+      if (!res.ok) {
+        return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
+      }
+      const data = (res.data.offers ?? []).slice(0, limit);
+      return reply.send({
+        network: config.network,
+        count: data.length,
+        source: "validator",
+        data,
+      });
+    },
+  );
+
+  // GET /api/self/transactions
+  server.get(
+    "/self/transactions",
+    {
+      schema: {
+        tags: ["self"],
+        summary: "Wallet transaction history of our own party",
+        querystring: {
+          type: "object",
+          properties: {
+            limit: { type: "integer", default: 50, maximum: 500 },
+            type: {
+              type: "string",
+              description: "transaction_type: transfer, balance_change, notification, unknown",
+            },
+            from: { type: "string", description: "ISO8601 start date" },
+            to: { type: "string", description: "ISO8601 end date" },
+            live: { type: "boolean", description: "Force live fetch from the Validator API" },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const q = req.query as Record<string, unknown>;
+      const live = q["live"] === true || q["live"] === "true";
+      const limit = Math.min(Number(q["limit"] ?? 50), 500);
+
+      if (!live) {
+        const rows = await self.transactions({
+          network: config.network,
+          limit,
+          type: q["type"] as string | undefined,
+          from: q["from"] as string | undefined,
+          to: q["to"] as string | undefined,
+        });
+        if (rows.length > 0) {
+          return reply.send({
+            network: config.network,
+            count: rows.length,
+            source: "indexed",
+            data: rows,
+          });
+        }
+      }
+
+      const res = await validatorApi.getTransactions({ page_size: limit });
+      if (!res.ok) {
+        return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
+      }
+      const data = res.data.items ?? [];
+      return reply.send({
+        network: config.network,
+        count: data.length,
+        source: "validator",
+        data,
+      });
+    },
+  );
+
+  // GET /api/self/traffic-purchases
+  server.get(
+    "/self/traffic-purchases",
+    {
+      schema: {
+        tags: ["self"],
+        summary: "Traffic purchases paid by our own party",
+        querystring: {
+          type: "object",
+          properties: {
+            limit: { type: "integer", default: 50, maximum: 500 },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const q = req.query as Record<string, unknown>;
+      const limit = Math.min(Number(q["limit"] ?? 50), 500);
+
+      const rows = await self.trafficPurchases(config.network, limit);
+      const total = await self.trafficTotals(config.network);
+      return reply.send({
+        network: config.network,
+        count: rows.length,
+        total_purchases: total.purchases,
+        total_cc_spent: total.cc_spent ?? "0",
+        data: rows,
+      });
+    },
+  );
+}
@@ -1,7 +1,6 @@
 import { FastifyInstance } from "fastify";
-import { queryRows, queryOne } from "../../storage/db.js";
-import { lighthouse } from "../../collectors/lighthouse.js";
-import { config } from "../../config.js";
+import { lighthouseFor } from "../../collectors/lighthouse.js";
+import { prices, stats } from "../../storage/repositories/index.js";
 
 export async function registerStatsRoutes(server: FastifyInstance): Promise<void> {
   // GET /api/stats
@@ -25,28 +24,21 @@ export async function registerStatsRoutes(server: FastifyInstance): Promise<void
         (req.query as Record<string, unknown>)["live"] === "true";
 
       if (!live) {
-        const row = await queryOne<{ raw: unknown; captured_at: string; cc_price: string | null }>(
-          `SELECT raw, captured_at, cc_price
-           FROM stats_snapshots
-           WHERE network = $1
-           ORDER BY captured_at DESC
-           LIMIT 1`,
-          [config.network],
-        );
+        const row = await stats.latest(req.network);
         if (row) {
           return reply.send({
             ...(row.raw as object),
             _cached_at: row.captured_at,
-            network: config.network,
+            network: req.network,
           });
         }
       }
 
-      const res = await lighthouse.getStats();
+      const res = await lighthouseFor(req.network).getStats();
       if (!res.ok) {
         return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
       }
-      return reply.send({ ...res.data, network: config.network });
+      return reply.send({ ...res.data, network: req.network, upstream: res.upstream });
     },
   );
 
@@ -73,30 +65,9 @@ export async function registerStatsRoutes(server: FastifyInstance): Promise<void
       const from = q["from"] as string | undefined;
       const to = q["to"] as string | undefined;
 
-      const params: unknown[] = [config.network, limit];
-      let where = "WHERE network = $1";
-      if (from) {
-        params.push(from);
-        where += ` AND captured_at >= $${params.length}`;
-      }
-      if (to) {
-        params.push(to);
-        where += ` AND captured_at <= $${params.length}`;
-      }
-
-      const rows = await queryRows<{
-        total_validators: number;
-        cc_price: string | null;
-        captured_at: string;
-      }>(
-        `SELECT total_validators, cc_price, captured_at
-         FROM stats_snapshots ${where}
-         ORDER BY captured_at DESC
-         LIMIT $2`,
-        params,
-      );
+      const rows = await stats.history({ network: req.network, from, to, limit });
 
-      return reply.send({ network: config.network, count: rows.length, data: rows });
+      return reply.send({ network: req.network, count: rows.length, data: rows });
     },
   );
 
@@ -121,32 +92,26 @@ export async function registerStatsRoutes(server: FastifyInstance): Promise<void
         (req.query as Record<string, unknown>)["live"] === "true";
 
       if (!live) {
-        const row = await queryOne<{ price_usd: string; captured_at: string }>(
-          `SELECT price_usd, captured_at
-           FROM prices
-           WHERE network = $1
-           ORDER BY captured_at DESC
-           LIMIT 1`,
-          [config.network],
-        );
+        const row = await prices.latest(req.network);
         if (row) {
           return reply.send({
             price_usd: row.price_usd,
             _cached_at: row.captured_at,
-            network: config.network,
+            network: req.network,
           });
         }
       }
 
       // Fallback: fetch from stats
-      const res = await lighthouse.getStats();
+      const res = await lighthouseFor(req.network).getStats();
       if (!res.ok) {
         return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
       }
       return reply.send({
         price_usd: res.data.cc_price ?? null,
-        network: config.network,
+        network: req.network,
         source: "stats",
+        upstream: res.upstream,
       });
     },
   );
@@ -159,7 +124,7 @@ export async function registerStatsRoutes(server: FastifyInstance): Promise<void
         tags: ["stats"],
         summary: "CC price history (persisted from periodic stats polling)",
         description:
-          "Lighthouse has no dedicated prices endpoint. Price is extracted from /api/stats cc_price field and persisted on each poll cycle.",
+          "Lighthouse has no dedicated prices endpoint. Price is extracted from /api/stats cc_price field and persisted on each poll cycle. Points older than RETENTION_RAW_DAYS are hourly or daily rollups: `price_usd` is their average, with `min_usd`, `max_usd` and the number of `samples`.",
         querystring: {
           type: "object",
           properties: {
@@ -181,45 +146,31 @@ export async function registerStatsRoutes(server: FastifyInstance): Promise<void
       const from = q["from"] as string | undefined;
       const to = q["to"] as string | undefined;
 
-      const params: unknown[] = [config.network, limit];
-      let where = "WHERE network = $1";
-      if (from) {
-        params.push(from);
-        where += ` AND captured_at >= $${params.length}`;
-      }
-      if (to) {
-        params.push(to);
-        where += ` AND captured_at <= $${params.length}`;
-      }
-
-      const rows = await queryRows<{ price_usd: string; captured_at: string }>(
-        `SELECT price_usd, captured_at
-         FROM prices ${where}
-         ORDER BY captured_at DESC
-         LIMIT $2`,
-        params,
-      );
+      const rows = await prices.history({ network: req.network, from, to, limit });
 
       if (rows.length === 0) {
         return reply.send({
-          network: config.network,
+          network: req.network,
           count: 0,
           message: "No price history yet — prices are collected on each stats poll cycle",
           data: [],
         });
       }
 
-      const prices = rows.map((r) => parseFloat(r.price_usd));
-      const minPrice = Math.min(...prices);
-      const maxPrice = Math.max(...prices);
-      const avgPrice = prices.reduce((a, b) => a + b, 0) / prices.length;
-      const firstPrice = prices[prices.length - 1]!;
-      const lastPrice = prices[0]!;
+      const values = rows.map((r) => parseFloat(r.price_usd));
+      const minPrice = Math.min(...rows.map((r) => parseFloat(r.min_usd)));
+      const maxPrice = Math.max(...rows.map((r) => parseFloat(r.max_usd)));
+      // Weighted by samples, so a daily rollup counts as the snapshots it stands for
+      const avgPrice =
+        rows.reduce((a, r) => a + parseFloat(r.sum_usd), 0) /
+        rows.reduce((n, r) => n + r.samples, 0);
+      const firstPrice = values[values.length - 1]!;
+      const lastPrice = values[0]!;
       const changePct =
         firstPrice > 0 ? (((lastPrice - firstPrice) / firstPrice) * 100).toFixed(4) : null;
 
       return reply.send({
-        network: config.network,
+        network: req.network,
         count: rows.length,
         stats: {
           min_usd: minPrice.toFixed(8),
@@ -229,7 +180,11 @@ export async function registerStatsRoutes(server: FastifyInstance): Promise<void
           from_date: rows[rows.length - 1]?.captured_at ?? null,
           to_date: rows[0]?.captured_at ?? null,
         },
-        data: rows,
+        data: rows.map(({ sum_usd: _sum, ...r }) =>
+          r.resolution === "raw"
+            ? { price_usd: r.price_usd, captured_at: r.captured_at, resolution: r.resolution }
+            : r,
+        ),
       });
     },
   );
@@ -1,7 +1,7 @@
 import { FastifyInstance } from 'fastify';
-import { queryRows, queryOne } from '../../storage/db.js';
-import { lighthouse } from '../../collectors/lighthouse.js';
-import { config } from '../../config.js';
+import { lighthouseFor } from '../../collectors/lighthouse.js';
+import { fromSources } from '../../collectors/sources.js';
+import { transactions } from '../../storage/repositories/index.js';
 
 export async function registerTransactionRoutes(server: FastifyInstance): Promise<void> {
   // GET /api/transactions
@@ -27,29 +27,18 @@ export async function registerTransactionRoutes(server: FastifyInstance): Promis
     const to   = q['to']   as string | undefined;
 
     if (!live) {
-      const params: unknown[] = [config.network, limit];
-      let where = 'WHERE network = $1';
-      if (from) { params.push(from); where += ` AND created_at >= $${params.length}`; }
-      if (to)   { params.push(to);   where += ` AND created_at <= $${params.length}`; }
-
-      const rows = await queryRows<Record<string, unknown>>(
-        `SELECT update_id, created_at, captured_at, raw
-         FROM transactions ${where}
-         ORDER BY created_at DESC NULLS LAST
-         LIMIT $2`,
-        params,
-      );
+      const rows = await transactions.list({ network: req.network, from, to, limit });
       if (rows.length > 0) {
-        return reply.send({ network: config.network, count: rows.length, source: 'indexed', data: rows });
+        return reply.send({ network: req.network, count: rows.length, source: 'indexed', data: rows });
       }
     }
 
-    const res = await lighthouse.getTransactions({ page_size: String(limit) } as never);
+    const res = await lighthouseFor(req.network).getTransactions({ page_size: String(limit) } as never);
     if (!res.ok) {
       return reply.status(502).send({ error: 'Upstream unavailable', detail: res.error });
     }
     const data = Array.isArray(res.data) ? res.data : [];
-    return reply.send({ network: config.network, count: data.length, source: 'lighthouse', data });
+    return reply.send({ network: req.network, count: data.length, source: 'lighthouse', upstream: res.upstream, data });
   });
 
   // GET /api/transactions/:updateId
@@ -66,18 +55,15 @@ export async function registerTransactionRoutes(server: FastifyInstance): Promis
   }, async (req, reply) => {
     const { updateId } = req.params;
 
-    const row = await queryOne<Record<string, unknown>>(
-      `SELECT update_id, created_at, captured_at, raw
-       FROM transactions WHERE update_id = $1 AND network = $2`,
-      [updateId, config.network],
-    );
+    const row = await transactions.get(req.network, updateId);
     if (row) return reply.send(row);
 
-    const res = await lighthouse.getTransaction(updateId);
+    // Scan (when preferred) or the Lighthouse mirrors, whichever has the update
+    const res = await fromSources(req.network, (s) => s.lookupUpdate(updateId));
     if (!res.ok) {
       const status = res.status === 404 ? 404 : 502;
       return reply.status(status).send({ error: res.status === 404 ? 'Not found' : 'Upstream unavailable', detail: res.error });
     }
-    return reply.send(res.data);
+    return reply.send({ ...res.data, source: res.source, upstream: res.upstream });
   });
 }
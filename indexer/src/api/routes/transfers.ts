@@ -1,7 +1,6 @@
 import { FastifyInstance } from 'fastify';
-import { queryRows } from '../../storage/db.js';
-import { lighthouse } from '../../collectors/lighthouse.js';
-import { config } from '../../config.js';
+import { lighthouseFor } from '../../collectors/lighthouse.js';
+import { transfers } from '../../storage/repositories/index.js';
 
 export async function registerTransferRoutes(server: FastifyInstance): Promise<void> {
   // GET /api/transfers
@@ -9,7 +8,7 @@ export async function registerTransferRoutes(server: FastifyInstance): Promise<v
     schema: {
       tags: ['transfers'],
       summary: 'List transfers',
-      description: 'Returns persisted transfers from DB with date range filtering. Note: GET /api/transfers/:id is not implemented — known Lighthouse API bug (HTTP 500).',
+      description: 'Returns persisted transfers from DB with date range filtering. Pass `next_cursor` back as `cursor` for the next page. Note: GET /api/transfers/:id is not implemented — known Lighthouse API bug (HTTP 500).',
       querystring: {
         type: 'object',
         properties: {
@@ -18,6 +17,7 @@ export async function registerTransferRoutes(server: FastifyInstance): Promise<v
           to:       { type: 'string', description: 'ISO8601 end date' },
           sender:   { type: 'string', description: 'Filter by sender party ID' },
           receiver: { type: 'string', description: 'Filter by receiver party ID' },
+          cursor:   { type: 'string', description: 'next_cursor of the previous page' },
           live:     { type: 'boolean', description: 'Force live fetch from Lighthouse' },
         },
       },
@@ -30,34 +30,33 @@ export async function registerTransferRoutes(server: FastifyInstance): Promise<v
     const to       = q['to']       as string | undefined;
     const sender   = q['sender']   as string | undefined;
     const receiver = q['receiver'] as string | undefined;
+    const cursor   = q['cursor']   as string | undefined;
 
     if (!live) {
-      const params: unknown[] = [config.network, limit];
-      let where = 'WHERE network = $1';
-
-      if (from)     { params.push(from);     where += ` AND created_at >= $${params.length}`; }
-      if (to)       { params.push(to);       where += ` AND created_at <= $${params.length}`; }
-      if (sender)   { params.push(sender);   where += ` AND sender = $${params.length}`; }
-      if (receiver) { params.push(receiver); where += ` AND receiver = $${params.length}`; }
+      const after = cursor !== undefined ? transfers.decodeCursor(cursor) : undefined;
+      if (after === null) {
+        return reply.status(400).send({ error: 'Invalid cursor' });
+      }
 
-      const rows = await queryRows<Record<string, unknown>>(
-        `SELECT id, sender, receiver, amount, created_at, captured_at
-         FROM transfers ${where}
-         ORDER BY created_at DESC NULLS LAST
-         LIMIT $2`,
-        params,
-      );
+      const page = await transfers.list({ network: req.network, from, to, sender, receiver, cursor: after, limit });
 
-      if (rows.length > 0) {
-        return reply.send({ network: config.network, count: rows.length, source: 'indexed', data: rows });
+      // A later page that comes back empty is the end of the list, not a cache miss
+      if (page.rows.length > 0 || after) {
+        return reply.send({
+          network: req.network,
+          count: page.rows.length,
+          source: 'indexed',
+          next_cursor: page.nextCursor,
+          data: page.rows,
+        });
       }
     }
 
-    const res = await lighthouse.getTransfers({ page_size: String(limit) } as never);
+    const res = await lighthouseFor(req.network).getTransfers({ page_size: String(limit) } as never);
     if (!res.ok) {
       return reply.status(502).send({ error: 'Upstream unavailable', detail: res.error });
     }
     const data = Array.isArray(res.data) ? res.data : [];
-    return reply.send({ network: config.network, count: data.length, source: 'lighthouse', data });
+    return reply.send({ network: req.network, count: data.length, source: 'lighthouse', upstream: res.upstream, data });
   });
 }
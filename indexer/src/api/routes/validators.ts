@@ -1,7 +1,6 @@
 import { FastifyInstance } from "fastify";
-import { queryRows, queryOne } from "../../storage/db.js";
-import { lighthouse } from "../../collectors/lighthouse.js";
-import { config } from "../../config.js";
+import { lighthouseFor } from "../../collectors/lighthouse.js";
+import { rewards, validators } from "../../storage/repositories/index.js";
 
 export async function registerValidatorRoutes(server: FastifyInstance): Promise<void> {
   // GET /api/validators
@@ -26,25 +25,18 @@ export async function registerValidatorRoutes(server: FastifyInstance): Promise<
       const limit = Math.min(Number(q["limit"] ?? 1000), 1000);
 
       if (!live) {
-        const rows = await queryRows<Record<string, unknown>>(
-          `SELECT id, name, party_id, is_active, version, first_seen_at, last_seen_at
-           FROM validators
-           WHERE network = $1
-           ORDER BY last_seen_at DESC
-           LIMIT $2`,
-          [config.network, limit],
-        );
+        const rows = await validators.list(req.network, limit);
         if (rows.length > 0) {
-          return reply.send({ network: config.network, count: rows.length, data: rows });
+          return reply.send({ network: req.network, count: rows.length, data: rows });
         }
       }
 
-      const res = await lighthouse.getValidators({ page_size: limit });
+      const res = await lighthouseFor(req.network).getValidators({ page_size: limit });
       if (!res.ok) {
         return reply.status(502).send({ error: "Upstream unavailable", detail: res.error });
       }
       return reply.send({
-        network: config.network,
+        network: req.network,
         count: res.data.count,
         data: res.data.validators,
       });
@@ -77,16 +69,11 @@ export async function registerValidatorRoutes(server: FastifyInstance): Promise<
       const live = q["live"] === true || q["live"] === "true";
 
       if (!live) {
-        const row = await queryOne<Record<string, unknown>>(
-          `SELECT id, name, party_id, is_active, version, first_seen_at, last_seen_at, raw
-           FROM validators
-           WHERE id = $1 AND network = $2`,
-          [id, config.network],
-        );
+        const row = await validators.get(req.network, id);
         if (row) return reply.send(row);
       }
 
-      const res = await lighthouse.getValidator(id);
+      const res = await lighthouseFor(req.network).getValidator(id);
       if (!res.ok) {
         const status = res.status === 404 ? 404 : 502;
         return reply.status(status).send({
@@ -95,7 +82,7 @@ export async function registerValidatorRoutes(server: FastifyInstance): Promise<
         });
       }
       // Real response: {validator: {...}, balance: {...}, traffic_status: ...}
-      return reply.send({ ...res.data, network: config.network });
+      return reply.send({ ...res.data, network: req.network, upstream: res.upstream });
     },
   );
 
@@ -106,6 +93,8 @@ export async function registerValidatorRoutes(server: FastifyInstance): Promise<
       schema: {
         tags: ["validators"],
         summary: "Validator uptime history (snapshots)",
+        description:
+          "Recent data points are single snapshots (`resolution: raw`); older ones are hourly or daily rollups counting `samples` snapshots, `active_samples` of them active.",
         params: {
           type: "object",
           properties: { id: { type: "string" } },
@@ -128,32 +117,21 @@ export async function registerValidatorRoutes(server: FastifyInstance): Promise<
       const from = q["from"] as string | undefined;
       const to = q["to"] as string | undefined;
 
-      const params: unknown[] = [id, config.network, limit];
-      let where = "WHERE validator_id = $1 AND network = $2";
-      if (from) {
-        params.push(from);
-        where += ` AND captured_at >= $${params.length}`;
-      }
-      if (to) {
-        params.push(to);
-        where += ` AND captured_at <= $${params.length}`;
-      }
-
-      const rows = await queryRows<{ is_active: boolean; captured_at: string }>(
-        `SELECT is_active, captured_at
-         FROM validator_snapshots ${where}
-         ORDER BY captured_at DESC
-         LIMIT $3`,
-        params,
-      );
+      const rows = await validators.uptime({
+        network: req.network,
+        validatorId: id,
+        from,
+        to,
+        limit,
+      });
 
-      const total = rows.length;
-      const activeCount = rows.filter((r) => r.is_active).length;
+      const total = rows.reduce((n, r) => n + r.samples, 0);
+      const activeCount = rows.reduce((n, r) => n + r.active_samples, 0);
       const uptimePct = total > 0 ? ((activeCount / total) * 100).toFixed(2) : null;
 
       return reply.send({
         validator_id: id,
-        network: config.network,
+        network: req.network,
         total_snapshots: total,
         active_snapshots: activeCount,
         uptime_pct: uptimePct ? parseFloat(uptimePct) : null,
@@ -170,7 +148,7 @@ export async function registerValidatorRoutes(server: FastifyInstance): Promise<
         tags: ["validators"],
         summary: "Historical reward tracking for a validator",
         description:
-          "Persisted reward history. Rewards are indexed when party/:id/rewards is polled. Three reward types: app_reward, validator_reward, sv_reward.",
+          "Persisted reward history. Rewards are polled for every validator plus the REWARDS_PARTIES watchlist. Three reward types: app_reward, validator_reward, sv_reward.",
         params: {
           type: "object",
           properties: { id: { type: "string" } },
@@ -193,30 +171,7 @@ export async function registerValidatorRoutes(server: FastifyInstance): Promise<
       const from = q["from"] as string | undefined;
       const to = q["to"] as string | undefined;
 
-      const params: unknown[] = [id, config.network, limit];
-      let where = "WHERE party_id = $1 AND network = $2";
-      if (from) {
-        params.push(from);
-        where += ` AND created_at >= $${params.length}`;
-      }
-      if (to) {
-        params.push(to);
-        where += ` AND created_at <= $${params.length}`;
-      }
-
-      const rows = await queryRows<{
-        round: number;
-        app_reward: string;
-        validator_reward: string;
-        sv_reward: string;
-        created_at: string;
-      }>(
-        `SELECT round, app_reward, validator_reward, sv_reward, created_at, captured_at
-         FROM rewards ${where}
-         ORDER BY round DESC NULLS LAST
-         LIMIT $3`,
-        params,
-      );
+      const rows = await rewards.list({ network: req.network, partyId: id, from, to, limit });
 
       const totalValidator = rows.reduce(
         (acc, r) => acc + parseFloat(r.validator_reward ?? "0"),
@@ -227,14 +182,14 @@ export async function registerValidatorRoutes(server: FastifyInstance): Promise<
 
       return reply.send({
         party_id: id,
-        network: config.network,
+        network: req.network,
         totals: {
           validator_reward: totalValidator.toFixed(10),
           app_reward: totalApp.toFixed(10),
           sv_reward: totalSv.toFixed(10),
         },
         count: rows.length,
-        data: rows,
+        data: rows.map(({ amount: _amount, ...r }) => r),
       });
     },
   );
@@ -3,7 +3,12 @@ import cors from "@fastify/cors";
 import swagger from "@fastify/swagger";
 import swaggerUi from "@fastify/swagger-ui";
 import { config } from "../config.js";
-import { checkConnection, migrate } from "../storage/db.js";
+import { checkConnection } from "../storage/db.js";
+import { lighthouseFor } from "../collectors/lighthouse.js";
+import { scan } from "../collectors/scan.js";
+import { leaderState } from "../leader.js";
+import { handleShutdownSignals, isShuttingDown } from "../lifecycle.js";
+import { API_PREFIXES, registerNetworkResolution } from "./network.js";
 import { registerStatsRoutes } from "./routes/stats.js";
 import { registerValidatorRoutes } from "./routes/validators.js";
 import { registerTransactionRoutes } from "./routes/transactions.js";
@@ -12,6 +17,11 @@ import { registerGovernanceRoutes } from "./routes/governance.js";
 import { registerPartyRoutes } from "./routes/parties.js";
 import { registerRoundRoutes } from "./routes/rounds.js";
 import { registerMiscRoutes } from "./routes/misc.js";
+import { registerContractRoutes } from "./routes/contracts.js";
+import { registerIndexerRoutes } from "./routes/indexer.js";
+import { registerAdminRoutes } from "./routes/admin.js";
+import { registerSelfRoutes } from "./routes/self.js";
+import { registerAnalyticsRoutes } from "./routes/analytics.js";
 
 export async function buildServer(): Promise<FastifyInstance> {
   const server = Fastify({
@@ -47,8 +57,13 @@ export async function buildServer(): Promise<FastifyInstance> {
         { name: "transfers", description: "Transfers" },
         { name: "rounds", description: "Consensus rounds" },
         { name: "governance", description: "Governance votes" },
+        { name: "contracts", description: "Active contracts" },
         { name: "prices", description: "CC price" },
+        { name: "analytics", description: "Daily aggregates of network activity and rewards" },
         { name: "misc", description: "CNS, featured apps, preapprovals, search" },
+        { name: "self", description: "Our own validator wallet (requires VALIDATOR_API_ENABLED)" },
+        { name: "indexer", description: "Indexer internals (ingestion progress)" },
+        { name: "admin", description: "Operator actions (require ADMIN_TOKEN)" },
       ],
     },
   });
@@ -58,6 +73,8 @@ export async function buildServer(): Promise<FastifyInstance> {
     uiConfig: { docExpansion: "list", deepLinking: true },
   });
 
+  registerNetworkResolution(server);
+
   // ── Routes ────────────────────────────────────────────────────────────────
 
   server.get(
@@ -72,6 +89,7 @@ export async function buildServer(): Promise<FastifyInstance> {
               name: { type: "string" },
               version: { type: "string" },
               network: { type: "string" },
+              networks: { type: "array", items: { type: "string" } },
               endpoints: {
                 type: "object",
                 properties: {
@@ -91,6 +109,7 @@ export async function buildServer(): Promise<FastifyInstance> {
         name: "Canton Network Indexer API",
         version: "0.1.0",
         network: config.network,
+        networks: config.networks,
         description:
           "Unified REST API aggregating Lighthouse Explorer, Scan API, Validator and Participant data",
         endpoints: {
@@ -110,6 +129,8 @@ export async function buildServer(): Promise<FastifyInstance> {
     {
       schema: {
         summary: "Health check",
+        description:
+          "Upstream and scheduler state of the default network, or of the one named by `?network=`.",
         response: {
           200: {
             type: "object",
@@ -118,30 +139,144 @@ export async function buildServer(): Promise<FastifyInstance> {
               network: { type: "string" },
               db: { type: "boolean" },
               uptime: { type: "number" },
+              lighthouse: {
+                type: "object",
+                properties: {
+                  open_breakers: { type: "integer" },
+                  upstreams: {
+                    type: "array",
+                    items: { type: "object", additionalProperties: true },
+                  },
+                  breakers: {
+                    type: "array",
+                    items: { type: "object", additionalProperties: true },
+                  },
+                  limiters: {
+                    type: "array",
+                    items: { type: "object", additionalProperties: true },
+                  },
+                },
+              },
+              scan: {
+                type: "object",
+                properties: {
+                  open_breakers: { type: "integer" },
+                  upstreams: {
+                    type: "array",
+                    items: { type: "object", additionalProperties: true },
+                  },
+                  breakers: {
+                    type: "array",
+                    items: { type: "object", additionalProperties: true },
+                  },
+                },
+              },
+              scheduler: {
+                type: "object",
+                properties: {
+                  election: { type: "boolean" },
+                  instance: { type: "string" },
+                  is_leader: { type: "boolean" },
+                  leader_since: { type: "string", nullable: true },
+                  leader: {
+                    type: "object",
+                    nullable: true,
+                    properties: {
+                      instance: { type: "string" },
+                      pid: { type: "integer" },
+                    },
+                  },
+                },
+              },
             },
           },
         },
       },
     },
-    async (_req, reply) => {
+    async (req, reply) => {
       const db = await checkConnection();
+      const lighthouse = lighthouseFor(req.network);
+      const breakers = lighthouse.breakerStates();
+      const openBreakers = breakers.filter((b) => b.state !== "closed").length;
+      const scanBreakers = scan.breakerStates();
+      const scanOpen = scanBreakers.filter((b) => b.state !== "closed").length;
+      const scheduler = db ? await leaderState(req.network) : null;
       return reply.send({
-        status: db ? "ok" : "degraded",
-        network: config.network,
+        status: isShuttingDown()
+          ? "shutting_down"
+          : db && openBreakers === 0 && scanOpen === 0
+            ? "ok"
+            : "degraded",
+        network: req.network,
         db,
         uptime: process.uptime(),
+        lighthouse: {
+          open_breakers: openBreakers,
+          upstreams: lighthouse.upstreamStates(),
+          breakers,
+          limiters: lighthouse.limiterStates(),
+        },
+        ...(config.scanApi.enabled
+          ? {
+              scan: {
+                open_breakers: scanOpen,
+                upstreams: scan.upstreamStates(),
+                breakers: scanBreakers,
+              },
+            }
+          : {}),
+        ...(scheduler ? { scheduler } : {}),
       });
     },
   );
 
-  await server.register(registerStatsRoutes, { prefix: "/api" });
-  await server.register(registerValidatorRoutes, { prefix: "/api" });
-  await server.register(registerPartyRoutes, { prefix: "/api" });
-  await server.register(registerTransactionRoutes, { prefix: "/api" });
-  await server.register(registerTransferRoutes, { prefix: "/api" });
-  await server.register(registerRoundRoutes, { prefix: "/api" });
-  await server.register(registerGovernanceRoutes, { prefix: "/api" });
-  await server.register(registerMiscRoutes, { prefix: "/api" });
+  // For load balancers and orchestrators: fails as soon as shutdown begins, or
+  // while the database is unreachable. Upstream trouble does not count — the API
+  // still serves stored data then.
+  server.get(
+    "/ready",
+    {
+      schema: {
+        summary: "Readiness probe",
+        response: {
+          200: { type: "object", properties: { ready: { type: "boolean" } } },
+          503: {
+            type: "object",
+            properties: { ready: { type: "boolean" }, reason: { type: "string" } },
+          },
+        },
+      },
+    },
+    async (_req, reply) => {
+      if (isShuttingDown()) {
+        return reply.status(503).send({ ready: false, reason: "shutting down" });
+      }
+      if (!(await checkConnection())) {
+        return reply.status(503).send({ ready: false, reason: "database unreachable" });
+      }
+      return reply.send({ ready: true });
+    },
+  );
+
+  const plugins = [
+    registerStatsRoutes,
+    registerValidatorRoutes,
+    registerPartyRoutes,
+    registerTransactionRoutes,
+    registerTransferRoutes,
+    registerRoundRoutes,
+    registerGovernanceRoutes,
+    registerContractRoutes,
+    registerMiscRoutes,
+    registerAnalyticsRoutes,
+    registerSelfRoutes,
+    registerIndexerRoutes,
+    registerAdminRoutes,
+  ];
+  // `/api/...` serves the default network, `/api/:network/...` any indexed one
+  for (const prefix of API_PREFIXES) {
+    for (const plugin of plugins) await server.register(plugin, { prefix });
+  }
 
   return server;
 }
@@ -149,8 +284,6 @@ export async function buildServer(): Promise<FastifyInstance> {
 export async function startServer(): Promise<void> {
   const server = await buildServer();
 
-  await migrate();
-
   try {
     await server.listen({ host: config.server.host, port: config.server.port });
     console.log(`[server] listening on ${config.server.host}:${config.server.port}`);
@@ -160,12 +293,5 @@ export async function startServer(): Promise<void> {
     process.exit(1);
   }
 
-  const shutdown = async (signal: string) => {
-    console.log(`[server] ${signal} received, shutting down`);
-    await server.close();
-    process.exit(0);
-  };
-
-  process.on("SIGTERM", () => shutdown("SIGTERM"));
-  process.on("SIGINT", () => shutdown("SIGINT"));
+  handleShutdownSignals(server);
 }
@@ -0,0 +1,297 @@
+import { config, Network } from "./config.js";
+import { withSignal } from "./collectors/http.js";
+import { sleep } from "./collectors/resilience.js";
+import {
+  lighthouseFor,
+  LighthouseRound,
+  LighthouseTransaction,
+  LighthouseTransfer,
+  PageIterator,
+} from "./collectors/lighthouse.js";
+import { checkConnection, pool, Queryable, withTransaction } from "./storage/db.js";
+import { getCheckpoint, saveCheckpoint } from "./storage/checkpoints.js";
+import { insertRounds, insertTransactions, insertTransfers } from "./storage/ingest.js";
+
+// Walks Lighthouse history backwards (newest → oldest) and stores everything in
+// the requested round/date window. Progress is checkpointed per stream and window
+// under the `backfill:<stream>[:<window>]` job, so an interrupted run picks up
+// where it stopped and a run over another window starts from the head.
+//
+// CLI:  node dist/backfill.js [--network testnet] [--streams transactions,transfers,rounds]
+//         [--from-round N] [--to-round N] [--from ISO8601] [--to ISO8601] [--restart]
+
+export type BackfillStream = "transactions" | "transfers" | "rounds";
+
+export const BACKFILL_STREAMS: BackfillStream[] = ["transactions", "transfers", "rounds"];
+
+export interface BackfillOptions {
+  // Defaults to CANTON_NETWORK
+  network?: Network;
+  streams?: BackfillStream[];
+  fromRound?: number;
+  toRound?: number;
+  from?: string;
+  to?: string;
+  // Ignore a saved resume cursor and start again from the head
+  restart?: boolean;
+}
+
+export interface BackfillProgress {
+  stream: BackfillStream;
+  pages: number;
+  fetched: number;
+  inserted: number;
+  oldestRound: number | null;
+  oldestAt: string | null;
+  done: boolean;
+  error?: string;
+}
+
+interface HistoryStream<T> {
+  pages: (network: Network, cursor?: string) => PageIterator<T>;
+  seq: (item: T) => number | null;
+  round: (item: T) => number | null | undefined;
+  time: (item: T) => string | null | undefined;
+  // Writes one page's rows; resolves how many were new
+  store: (db: Queryable, network: string, items: T[]) => Promise<number>;
+}
+
+const pageSize = () => String(config.backfill.pageSize);
+
+const transactionsStream: HistoryStream<LighthouseTransaction> = {
+  pages: (network, cursor) =>
+    lighthouseFor(network, "ingest").pageTransactions({ page_size: pageSize(), cursor }),
+  seq: (tx) => tx.id ?? null,
+  round: (tx) => tx.round,
+  time: (tx) => tx.record_time,
+  store: insertTransactions,
+};
+
+const transfersStream: HistoryStream<LighthouseTransfer> = {
+  pages: (network, cursor) =>
+    lighthouseFor(network, "ingest").pageTransfers({ page_size: pageSize(), cursor }),
+  seq: (t) => t.id ?? null,
+  round: (t) => t.round,
+  time: (t) => t.created_at,
+  store: insertTransfers,
+};
+
+const roundsStream: HistoryStream<LighthouseRound> = {
+  pages: (network, cursor) =>
+    lighthouseFor(network, "ingest").pageRounds({ page_size: pageSize(), cursor }),
+  seq: (r) => r.round || null,
+  round: (r) => r.round,
+  time: (r) => r.open_at,
+  store: insertRounds,
+};
+
+// A resume cursor is only valid for the window it was saved under, so the window
+// is part of the checkpoint's job name: "backfill:transfers:r100-200:t2026-01-01-"
+function checkpointJob(name: BackfillStream, opts: BackfillOptions): string {
+  const rounds = opts.fromRound !== undefined || opts.toRound !== undefined;
+  const times = opts.from !== undefined || opts.to !== undefined;
+  const window = [
+    rounds ? `r${opts.fromRound ?? ""}-${opts.toRound ?? ""}` : null,
+    times ? `t${opts.from ?? ""}-${opts.to ?? ""}` : null,
+  ].filter(Boolean);
+  return [`backfill:${name}`, ...window].join(":");
+}
+
+function isAfterWindow(opts: BackfillOptions, round: number | null, time: number | null): boolean {
+  if (opts.toRound !== undefined && round !== null && round > opts.toRound) return true;
+  if (opts.to && time !== null && time > Date.parse(opts.to)) return true;
+  return false;
+}
+
+function isBeforeWindow(opts: BackfillOptions, round: number | null, time: number | null): boolean {
+  if (opts.fromRound !== undefined && round !== null && round < opts.fromRound) return true;
+  if (opts.from && time !== null && time < Date.parse(opts.from)) return true;
+  return false;
+}
+
+async function backfillStream<T>(
+  name: BackfillStream,
+  stream: HistoryStream<T>,
+  opts: BackfillOptions,
+  signal?: AbortSignal,
+  onProgress?: (p: BackfillProgress) => void,
+): Promise<BackfillProgress> {
+  const network = opts.network ?? config.network;
+  const cp = await getCheckpoint(checkpointJob(name, opts), network);
+  const progress: BackfillProgress = {
+    stream: name,
+    pages: 0,
+    fetched: 0,
+    inserted: 0,
+    oldestRound: null,
+    oldestAt: null,
+    done: false,
+  };
+
+  const startCursor = opts.restart ? undefined : (cp.resumeCursor ?? undefined);
+  if (startCursor) console.log(`[backfill] ${name}: resuming from cursor ${startCursor}`);
+
+  for await (const page of stream.pages(network, startCursor)) {
+    if (!page.ok) {
+      progress.error = page.error;
+      break;
+    }
+    progress.pages++;
+
+    let reachedStart = false;
+    const batch: T[] = [];
+    for (const item of page.data.items) {
+      const round = stream.round(item) ?? null;
+      const rawTime = stream.time(item);
+      const time = rawTime ? Date.parse(rawTime) : null;
+
+      if (isAfterWindow(opts, round, time)) continue;
+      if (isBeforeWindow(opts, round, time)) {
+        reachedStart = true;
+        break;
+      }
+
+      progress.fetched++;
+      batch.push(item);
+      if (round !== null) progress.oldestRound = round;
+      if (rawTime) progress.oldestAt = rawTime;
+      const seq = stream.seq(item);
+      if (seq !== null) cp.lastSeq = seq;
+    }
+    progress.inserted += await withTransaction((db) => stream.store(db, network, batch));
+
+    progress.done = reachedStart || page.data.nextCursor === undefined;
+    cp.resumeCursor = progress.done ? null : (page.data.nextCursor ?? null);
+    cp.lastRound = progress.oldestRound ?? cp.lastRound;
+    if (progress.done) cp.lastSyncedAt = new Date().toISOString();
+    await saveCheckpoint(cp);
+    onProgress?.(progress);
+
+    if (progress.done) break;
+    await sleep(config.backfill.pageDelayMs, signal);
+    if (signal?.aborted) {
+      progress.error = "aborted";
+      break;
+    }
+  }
+
+  console.log(
+    `[backfill] ${name}: ${progress.fetched} stored over ${progress.pages} pages, ${progress.inserted} new` +
+      (progress.done ? " — done" : progress.error ? ` — stopped: ${progress.error}` : ""),
+  );
+  return progress;
+}
+
+/**
+ * Backfills the requested streams one after another. Streams run sequentially
+ * so the page delay actually bounds the request rate. Aborting `signal` also
+ * cancels the Lighthouse request in flight, not just the wait between pages.
+ */
+export async function runBackfill(
+  opts: BackfillOptions,
+  signal?: AbortSignal,
+  onProgress?: (p: BackfillProgress) => void,
+): Promise<BackfillProgress[]> {
+  const runAll = async () => {
+    const results: BackfillProgress[] = [];
+    for (const name of opts.streams ?? BACKFILL_STREAMS) {
+      if (signal?.aborted) break;
+      const run =
+        name === "transactions"
+          ? backfillStream(name, transactionsStream, opts, signal, onProgress)
+          : name === "transfers"
+            ? backfillStream(name, transfersStream, opts, signal, onProgress)
+            : backfillStream(name, roundsStream, opts, signal, onProgress);
+      results.push(await run);
+    }
+    return results;
+  };
+  return signal ? withSignal(signal, runAll) : runAll();
+}
+
+// ── CLI ──────────────────────────────────────────────────────────────────────
+
+// A bound that does not parse would silently widen the window to all of history
+function roundArg(arg: string, value: string): number {
+  if (!/^\d+$/.test(value)) throw new Error(`Invalid ${arg}: ${value}. Must be a round number`);
+  return parseInt(value, 10);
+}
+
+function timeArg(arg: string, value: string): string {
+  if (isNaN(Date.parse(value))) {
+    throw new Error(`Invalid ${arg}: ${value}. Must be an ISO8601 date`);
+  }
+  return value;
+}
+
+function parseArgs(argv: string[]): BackfillOptions {
+  const opts: BackfillOptions = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const v = argv[++i];
+      if (v === undefined) throw new Error(`Missing value for ${arg}`);
+      return v;
+    };
+    switch (arg) {
+      case "--network": {
+        const network = next() as Network;
+        if (!config.networks.includes(network)) {
+          throw new Error(`Network ${network} is not indexed — add it to CANTON_NETWORKS`);
+        }
+        opts.network = network;
+        break;
+      }
+      case "--streams": {
+        const streams = next().split(",") as BackfillStream[];
+        const unknown = streams.filter((s) => !BACKFILL_STREAMS.includes(s));
+        if (unknown.length) throw new Error(`Unknown stream(s): ${unknown.join(", ")}`);
+        opts.streams = streams;
+        break;
+      }
+      case "--from-round":
+        opts.fromRound = roundArg(arg, next());
+        break;
+      case "--to-round":
+        opts.toRound = roundArg(arg, next());
+        break;
+      case "--from":
+        opts.from = timeArg(arg, next());
+        break;
+      case "--to":
+        opts.to = timeArg(arg, next());
+        break;
+      case "--restart":
+        opts.restart = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return opts;
+}
+
+async function main(): Promise<void> {
+  const opts = parseArgs(process.argv.slice(2));
+  console.log(`[backfill] network: ${opts.network ?? config.network}`, opts);
+
+  if (!(await checkConnection())) {
+    console.error("[backfill] database not reachable — exiting");
+    process.exit(1);
+  }
+
+  const controller = new AbortController();
+  process.on("SIGINT", () => controller.abort());
+  process.on("SIGTERM", () => controller.abort());
+
+  const results = await runBackfill(opts, controller.signal);
+  await pool.end();
+  process.exit(results.every((r) => r.done) ? 0 : 1);
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error("[backfill] fatal error", err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,107 @@
+import { fetch } from "undici";
+import { config } from "../config.js";
+
+// Bearer tokens for authenticated upstreams (the local Validator API).
+
+export interface TokenProvider {
+  // Resolves the current token, fetching a new one when needed; null = send no auth
+  getToken(): Promise<string | null>;
+  // Drops any cached token after the upstream answered 401; true if the next
+  // getToken() can produce a different one
+  invalidate(): boolean;
+}
+
+// A fixed JWT (VALIDATOR_JWT_TOKEN). Nothing to refresh — a 401 stays a 401.
+export class StaticTokenProvider implements TokenProvider {
+  constructor(private readonly token: string) {}
+
+  async getToken(): Promise<string | null> {
+    return this.token || null;
+  }
+
+  invalidate(): boolean {
+    return false;
+  }
+}
+
+export interface ClientCredentialsOptions {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  audience?: string;
+  scope?: string;
+  timeoutMs?: number;
+  // Tokens are renewed this long before their stated expiry
+  refreshSkewMs?: number;
+}
+
+/**
+ * OAuth2 client-credentials flow, as used by Auth0/Keycloak validator setups.
+ * The token is cached until shortly before `expires_in` runs out; concurrent
+ * callers share a single in-flight token request.
+ */
+export class ClientCredentialsTokenProvider implements TokenProvider {
+  private token: string | null = null;
+  private expiresAt = 0;
+  private pending: Promise<string> | null = null;
+
+  constructor(private readonly opts: ClientCredentialsOptions) {}
+
+  async getToken(): Promise<string | null> {
+    if (this.token && Date.now() < this.expiresAt) return this.token;
+    this.pending ??= this.fetchToken().finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  invalidate(): boolean {
+    this.token = null;
+    this.expiresAt = 0;
+    return true;
+  }
+
+  private async fetchToken(): Promise<string> {
+    const form = new URLSearchParams({
+      grant_type: "client_credentials",
+      client_id: this.opts.clientId,
+      client_secret: this.opts.clientSecret,
+    });
+    if (this.opts.audience) form.set("audience", this.opts.audience);
+    if (this.opts.scope) form.set("scope", this.opts.scope);
+
+    const res = await fetch(this.opts.tokenUrl, {
+      method: "POST",
+      signal: AbortSignal.timeout(this.opts.timeoutMs ?? 10_000),
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: form.toString(),
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new Error(`token request failed: ${res.status} ${text.slice(0, 200)}`.trim());
+    }
+    const body = (await res.json()) as { access_token?: string; expires_in?: number };
+    if (!body.access_token) throw new Error("token response has no access_token");
+
+    const lifetimeMs = (body.expires_in ?? 300) * 1000;
+    const skew = Math.min(this.opts.refreshSkewMs ?? 60_000, lifetimeMs / 2);
+    this.token = body.access_token;
+    this.expiresAt = Date.now() + lifetimeMs - skew;
+    return this.token;
+  }
+}
+
+export function validatorTokenProvider(): TokenProvider {
+  const auth = config.validatorApi.auth;
+  if (auth.tokenUrl) {
+    return new ClientCredentialsTokenProvider({
+      tokenUrl: auth.tokenUrl,
+      clientId: auth.clientId,
+      clientSecret: auth.clientSecret,
+      audience: auth.audience,
+      scope: auth.scope,
+      timeoutMs: config.validatorApi.timeoutMs,
+    });
+  }
+  return new StaticTokenProvider(config.validatorApi.jwtToken);
+}
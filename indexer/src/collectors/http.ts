@@ -0,0 +1,364 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { fetch } from "undici";
+import {
+  backoffDelay,
+  BreakerSnapshot,
+  CircuitBreaker,
+  parseRetryAfter,
+  sleep,
+} from "./resilience.js";
+import { LimiterOptions, LimiterSnapshot, RateLimiter } from "./limiter.js";
+import { Tape } from "./tape.js";
+
+// Shared HTTP plumbing for upstream collectors: JSON requests with retries,
+// per-endpoint circuit breakers, per-budget rate limiting and failover across
+// an ordered list of mirrors.
+
+// `upstream` is the host that answered (or, on failure, the last one tried)
+export type RequestResult<T> =
+  | { ok: true; data: T; upstream?: string }
+  | { ok: false; status: number; error: string; upstream?: string };
+
+// Scheduler/backfill traffic and API `?live=true` traffic draw from separate
+// rate budgets, so a burst of user requests cannot starve ingestion (or vice versa)
+export type Budget = "api" | "ingest";
+
+export interface UpstreamOptions {
+  // Mirrors in order of preference; later ones are only used while earlier ones fail
+  baseUrls: string[];
+  timeoutMs: number;
+  retries: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+  limits: Record<Budget, LimiterOptions>;
+  // Record responses to, or replay them from, fixture files instead of plain live traffic
+  tape?: Tape | null;
+}
+
+export interface UpstreamState {
+  upstream: string;
+  healthy: boolean;
+  open_breakers: number;
+}
+
+// Breakers and limiters are shared between the per-budget views of one collector
+export interface SharedState {
+  breakers: Map<string, CircuitBreaker>;
+  limiters: Map<Budget, RateLimiter>;
+}
+
+// "/api/parties/<id>/rewards" → "/api/parties/:id/rewards", so each endpoint —
+// not each party, round or contract — gets its own breaker (per mirror host)
+function endpointKey(path: string): string {
+  return path
+    .split("/")
+    .map((seg) => (seg === "" || /^[a-z-]+$/.test(seg) || /^v\d+$/.test(seg) ? seg : ":id"))
+    .join("/");
+}
+
+// Transient failures worth retrying. Plain 500s are not: Lighthouse answers 500
+// for known-bad lookups (e.g. balance of a party with no data), and retrying
+// those would only trip the breaker.
+const RETRYABLE_STATUS = new Set([0, 408, 429, 502, 503, 504]);
+
+// Set by the caller of withSignal(); requests made while it is aborted fail fast
+const ambientSignal = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Runs `fn` so that every upstream request it makes is cancelled once `signal`
+ * aborts: the fetch and retry backoff stop at once, requests still queued at
+ * the rate limiter fail when their turn comes. Lets the scheduler time out a
+ * whole job without threading a signal through every collector method.
+ */
+export function withSignal<T>(signal: AbortSignal, fn: () => Promise<T>): Promise<T> {
+  return ambientSignal.run(signal, fn);
+}
+
+// Status of requests cancelled through withSignal() — 499, "client closed
+// request": not retryable, not a reason to fail over
+export const ABORTED_STATUS = 499;
+
+function aborted<T>(signal: AbortSignal, upstream?: string): RequestResult<T> {
+  const reason = signal.reason instanceof Error ? signal.reason.message : String(signal.reason);
+  return { ok: false, status: ABORTED_STATUS, error: `aborted: ${reason}`, upstream };
+}
+
+/**
+ * Aborts as soon as either signal does. Stands in for AbortSignal.any(), which
+ * needs Node 20.3 — `engines` still allows Node 18. Call `dispose` once the
+ * request is over, so a long-lived signal does not collect listeners.
+ */
+function eitherSignal(
+  a: AbortSignal,
+  b: AbortSignal,
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onA = () => controller.abort(a.reason);
+  const onB = () => controller.abort(b.reason);
+  if (a.aborted) onA();
+  else if (b.aborted) onB();
+  a.addEventListener("abort", onA, { once: true });
+  b.addEventListener("abort", onB, { once: true });
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      a.removeEventListener("abort", onA);
+      b.removeEventListener("abort", onB);
+    },
+  };
+}
+
+function hostOf(baseUrl: string): string {
+  try {
+    return new URL(baseUrl).host;
+  } catch {
+    return baseUrl;
+  }
+}
+
+export abstract class UpstreamClient {
+  protected readonly shared: SharedState;
+
+  constructor(
+    protected readonly name: string,
+    protected readonly opts: UpstreamOptions,
+    protected readonly budget: Budget,
+    shared?: SharedState,
+  ) {
+    this.shared = shared ?? { breakers: new Map(), limiters: new Map() };
+  }
+
+  breakerStates(): BreakerSnapshot[] {
+    return [...this.shared.breakers.values()].map((b) => b.snapshot());
+  }
+
+  limiterStates(): LimiterSnapshot[] {
+    return (Object.keys(this.opts.limits) as Budget[]).map((b) => this.limiter(b).snapshot());
+  }
+
+  // A mirror is healthy while none of its endpoints has an open breaker
+  upstreamStates(): UpstreamState[] {
+    const breakers = this.breakerStates();
+    return this.opts.baseUrls.map((base) => {
+      const host = hostOf(base);
+      const open = breakers.filter(
+        (b) => b.endpoint.startsWith(`${host}/`) && b.state !== "closed",
+      ).length;
+      return { upstream: host, healthy: open === 0, open_breakers: open };
+    });
+  }
+
+  isHealthy(): boolean {
+    return this.upstreamStates().some((u) => u.healthy);
+  }
+
+  // Extra headers per request (e.g. Authorization) — overridden by authenticated collectors
+  protected async authHeaders(): Promise<Record<string, string>> {
+    return {};
+  }
+
+  // Sees every successful payload, keyed by endpoint (e.g. "/api/validators/:id");
+  // collectors override it to check payloads against their response types
+  protected inspect(_endpoint: string, _data: unknown): void {}
+
+  // Called once per request on a 401; resolve true to retry with fresh auth headers
+  protected async onUnauthorized(): Promise<boolean> {
+    return false;
+  }
+
+  protected get<T>(path: string, params?: Record<string, string>): Promise<RequestResult<T>> {
+    return this.request<T>("GET", path, params);
+  }
+
+  // Only for read-style POST endpoints (Scan queries): they are retried like GETs
+  protected post<T>(
+    path: string,
+    body: unknown,
+    params?: Record<string, string>,
+  ): Promise<RequestResult<T>> {
+    return this.request<T>("POST", path, params, body);
+  }
+
+  private limiter(budget: Budget): RateLimiter {
+    let l = this.shared.limiters.get(budget);
+    if (!l) {
+      l = new RateLimiter(budget, this.opts.limits[budget]);
+      this.shared.limiters.set(budget, l);
+    }
+    return l;
+  }
+
+  private breaker(endpoint: string): CircuitBreaker {
+    let b = this.shared.breakers.get(endpoint);
+    if (!b) {
+      b = new CircuitBreaker(endpoint, {
+        threshold: this.opts.breakerThreshold,
+        cooldownMs: this.opts.breakerCooldownMs,
+      });
+      this.shared.breakers.set(endpoint, b);
+    }
+    return b;
+  }
+
+  /**
+   * Tries each mirror in order, skipping those whose breaker for this endpoint
+   * is open. Only failures that point at the upstream (timeouts, 429, 502-504)
+   * move on to the next mirror; 404s and other answers are returned as-is.
+   */
+  private async request<T>(
+    method: "GET" | "POST",
+    path: string,
+    params?: Record<string, string>,
+    body?: unknown,
+  ): Promise<RequestResult<T>> {
+    const mirrors = this.opts.baseUrls;
+    const signal = ambientSignal.getStore();
+    let last: RequestResult<T> | null = null;
+    for (let i = 0; i < mirrors.length; i++) {
+      if (signal?.aborted) return aborted(signal, last?.upstream);
+      // Plain concatenation keeps any path prefix in the base URL (e.g. .../api/scan)
+      const url = new URL(mirrors[i].replace(/\/+$/, "") + path);
+      if (params) {
+        for (const [k, v] of Object.entries(params)) {
+          if (v !== undefined && v !== "") url.searchParams.set(k, v);
+        }
+      }
+
+      const breaker = this.breaker(url.host + endpointKey(url.pathname));
+      if (!breaker.allow()) {
+        last = {
+          ok: false,
+          status: 503,
+          error: `circuit open for ${breaker.endpoint}`,
+          upstream: url.host,
+        };
+        continue;
+      }
+
+      // While another mirror is left, failing over replaces retrying
+      const retries = i < mirrors.length - 1 ? 0 : this.opts.retries;
+      const result = await this.attempt<T>(method, url, body, breaker, retries, signal);
+      if (result.ok) {
+        this.inspect(endpointKey(path), result.data);
+        return result;
+      }
+      if (!RETRYABLE_STATUS.has(result.status)) return result;
+      last = result;
+      if (i < mirrors.length - 1) {
+        console.warn(
+          `[${this.name}] ${url.host}${url.pathname} → ${result.status || result.error}, failing over to ${hostOf(mirrors[i + 1])}`,
+        );
+      }
+    }
+    return last ?? { ok: false, status: 503, error: `no ${this.name} upstream configured` };
+  }
+
+  private async attempt<T>(
+    method: "GET" | "POST",
+    url: URL,
+    body: unknown,
+    breaker: CircuitBreaker,
+    retries: number,
+    signal: AbortSignal | undefined,
+  ): Promise<RequestResult<T>> {
+    const retry = {
+      retries,
+      baseMs: this.opts.retryBaseMs,
+      maxMs: this.opts.retryMaxMs,
+    };
+    let reauthed = false;
+    for (let attempt = 0; ; attempt++) {
+      // Every attempt, retries included, is charged against the rate budget
+      const { result, retryAfterMs } = await this.limiter(this.budget).run(() =>
+        signal?.aborted
+          ? Promise.resolve({ result: aborted<T>(signal), retryAfterMs: null })
+          : this.fetchOnce<T>(method, url, body, signal),
+      );
+      result.upstream = url.host;
+      if (signal?.aborted) {
+        breaker.onCancel();
+        return aborted(signal, url.host);
+      }
+      if (!result.ok && result.status === 401 && !reauthed && (await this.onUnauthorized())) {
+        // An expired token is not a retry: the attempt budget stays untouched
+        reauthed = true;
+        attempt--;
+        continue;
+      }
+      const retryable = !result.ok && RETRYABLE_STATUS.has(result.status);
+
+      if (result.ok || !retryable) {
+        // Non-retryable errors (404, 400, plain 500) mean the upstream is up
+        breaker.onSuccess();
+        return result;
+      }
+      if (attempt >= retry.retries) {
+        breaker.onFailure(`${result.status} ${result.error}`.trim());
+        return result;
+      }
+
+      const delay = Math.min(
+        retry.maxMs,
+        Math.max(backoffDelay(attempt, retry), retryAfterMs ?? 0),
+      );
+      console.warn(
+        `[${this.name}] ${url.pathname} → ${result.status || result.error}, retry ${attempt + 1}/${retry.retries} in ${delay}ms`,
+      );
+      await sleep(delay, signal);
+    }
+  }
+
+  private async fetchOnce<T>(
+    method: "GET" | "POST",
+    url: URL,
+    body: unknown,
+    signal: AbortSignal | undefined,
+  ): Promise<{ result: RequestResult<T>; retryAfterMs: number | null }> {
+    const tape = this.opts.tape;
+    if (tape?.mode === "replay") return tape.replay<T>(method, url, body);
+    const out = await this.fetchLive<T>(method, url, body, signal);
+    // A cancelled request is not the upstream's answer
+    if (tape?.mode === "record" && !signal?.aborted) await tape.record(method, url, body, out);
+    return out;
+  }
+
+  private async fetchLive<T>(
+    method: "GET" | "POST",
+    url: URL,
+    body: unknown,
+    signal: AbortSignal | undefined,
+  ): Promise<{ result: RequestResult<T>; retryAfterMs: number | null }> {
+    const timeout = AbortSignal.timeout(this.opts.timeoutMs);
+    const combined = signal ? eitherSignal(timeout, signal) : null;
+    try {
+      const res = await fetch(url.toString(), {
+        method,
+        signal: combined?.signal ?? timeout,
+        headers: {
+          Accept: "application/json",
+          ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+          ...(await this.authHeaders()),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        return {
+          result: { ok: false, status: res.status, error: text.slice(0, 200) },
+          retryAfterMs: parseRetryAfter(res.headers.get("retry-after")),
+        };
+      }
+
+      const data = (await res.json()) as T;
+      return { result: { ok: true, data }, retryAfterMs: null };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return { result: { ok: false, status: 0, error: msg }, retryAfterMs: null };
+    } finally {
+      combined?.dispose();
+    }
+  }
+}
@@ -0,0 +1,222 @@
+// Generated by scripts/gen-schemas.ts from lighthouse.ts — do not edit by hand.
+
+import { ObjectSchema } from "./shapes.js";
+
+export const LIGHTHOUSE_SCHEMAS: Record<string, ObjectSchema> = {
+  LighthouseStats: {
+    kind: "object",
+    fields: {
+      total_cc: { type: { kind: "string" } },
+      total_reward: { type: { kind: "string" } },
+      cc_price: { type: { kind: "string" } },
+      total_validator: { type: { kind: "number" } },
+      total_sv: { type: { kind: "number" } },
+      total_transaction: { type: { kind: "number" } },
+      total_parties: { type: { kind: "number" } },
+      history_tx_14d: { type: { kind: "array", items: { kind: "object", fields: { day: { type: { kind: "string" } }, tx_count: { type: { kind: "number" } } } } }, optional: true },
+      durations: { type: { kind: "unknown" }, optional: true },
+    },
+  },
+  LighthouseValidator: {
+    kind: "object",
+    fields: {
+      id: { type: { kind: "string" } },
+      sponsor: { type: { kind: "string" }, optional: true },
+      dso: { type: { kind: "string" }, optional: true },
+      last_active_at: { type: { kind: "union", options: [{ kind: "string" }, { kind: "null" }] }, optional: true },
+      first_round: { type: { kind: "number" }, optional: true },
+      last_round: { type: { kind: "number" }, optional: true },
+      miss_round: { type: { kind: "number" }, optional: true },
+      version: { type: { kind: "string" }, optional: true },
+      contact: { type: { kind: "string" }, optional: true },
+      metadata_last_update: { type: { kind: "union", options: [{ kind: "string" }, { kind: "null" }] }, optional: true },
+      created_at: { type: { kind: "string" }, optional: true },
+    },
+  },
+  LighthouseValidatorDetail: {
+    kind: "object",
+    fields: {
+      validator: { type: { kind: "ref", name: "LighthouseValidator" } },
+      balance: { type: { kind: "object", fields: { currency: { type: { kind: "string" } }, total_cc: { type: { kind: "number" } } } }, optional: true },
+      traffic_status: { type: { kind: "unknown" }, optional: true },
+    },
+  },
+  LighthouseValidatorsResponse: {
+    kind: "object",
+    fields: {
+      count: { type: { kind: "number" } },
+      validators: { type: { kind: "array", items: { kind: "ref", name: "LighthouseValidator" } } },
+      pagination: { type: { kind: "ref", name: "LighthousePagination" }, optional: true },
+    },
+  },
+  LighthouseReward: {
+    kind: "object",
+    fields: {
+      id: { type: { kind: "number" } },
+      round: { type: { kind: "number" } },
+      app_reward: { type: { kind: "string" } },
+      validator_reward: { type: { kind: "string" } },
+      sv_reward: { type: { kind: "string" } },
+      created_at: { type: { kind: "string" } },
+    },
+  },
+  LighthouseRewardsResponse: {
+    kind: "object",
+    fields: {
+      pagination: { type: { kind: "ref", name: "LighthousePagination" } },
+      rewards: { type: { kind: "array", items: { kind: "ref", name: "LighthouseReward" } } },
+    },
+  },
+  LighthouseTransaction: {
+    kind: "object",
+    fields: {
+      id: { type: { kind: "number" } },
+      update_id: { type: { kind: "string" } },
+      migration_id: { type: { kind: "number" }, optional: true },
+      record_time: { type: { kind: "string" } },
+      effective_at: { type: { kind: "string" }, optional: true },
+      workflow_id: { type: { kind: "union", options: [{ kind: "string" }, { kind: "null" }] }, optional: true },
+      round: { type: { kind: "union", options: [{ kind: "number" }, { kind: "null" }] }, optional: true },
+    },
+  },
+  LighthouseTransactionsResponse: {
+    kind: "object",
+    fields: {
+      pagination: { type: { kind: "ref", name: "LighthousePagination" } },
+      transactions: { type: { kind: "array", items: { kind: "ref", name: "LighthouseTransaction" } } },
+    },
+  },
+  LighthouseTransfer: {
+    kind: "object",
+    fields: {
+      id: { type: { kind: "number" } },
+      created_at: { type: { kind: "string" } },
+      round: { type: { kind: "number" }, optional: true },
+      amount: { type: { kind: "number" } },
+      sender_address: { type: { kind: "string" } },
+      receiver_address: { type: { kind: "string" } },
+      event_id: { type: { kind: "string" }, optional: true },
+    },
+  },
+  LighthouseTransfersResponse: {
+    kind: "object",
+    fields: {
+      pagination: { type: { kind: "ref", name: "LighthousePagination" } },
+      transfers: { type: { kind: "array", items: { kind: "ref", name: "LighthouseTransfer" } } },
+    },
+  },
+  LighthouseRound: {
+    kind: "object",
+    fields: {
+      round: { type: { kind: "number" } },
+      open_at: { type: { kind: "string" } },
+      close_at: { type: { kind: "string" }, optional: true },
+      total_tx: { type: { kind: "number" } },
+      total_reward: { type: { kind: "number" } },
+      issuance_per_sv_reward_coupon: { type: { kind: "number" }, optional: true },
+      issuance_per_validator_reward_coupon: { type: { kind: "number" }, optional: true },
+    },
+  },
+  LighthouseRoundsResponse: {
+    kind: "object",
+    fields: {
+      pagination: { type: { kind: "ref", name: "LighthousePagination" } },
+      rounds: { type: { kind: "array", items: { kind: "ref", name: "LighthouseRound" } } },
+    },
+  },
+  LighthouseGovernanceVote: {
+    kind: "object",
+    fields: {
+      id: { type: { kind: "string" } },
+      template_id: { type: { kind: "string" }, optional: true },
+    },
+  },
+  LighthouseGovernanceResponse: {
+    kind: "object",
+    fields: {
+      count: { type: { kind: "number" } },
+      total_sv: { type: { kind: "number" } },
+      vote_requests: { type: { kind: "array", items: { kind: "ref", name: "LighthouseGovernanceVote" } } },
+      pagination: { type: { kind: "ref", name: "LighthousePagination" }, optional: true },
+    },
+  },
+  LighthouseContract: {
+    kind: "object",
+    fields: {
+      contract_id: { type: { kind: "string" } },
+      template_id: { type: { kind: "string" }, optional: true },
+      payload: { type: { kind: "unknown" }, optional: true },
+    },
+  },
+  LighthouseContractsResponse: {
+    kind: "object",
+    fields: {
+      pagination: { type: { kind: "ref", name: "LighthousePagination" }, optional: true },
+      contracts: { type: { kind: "array", items: { kind: "ref", name: "LighthouseContract" } }, optional: true },
+    },
+  },
+  LighthouseCnsRecord: {
+    kind: "object",
+    fields: {
+      domain_name: { type: { kind: "string" } },
+      url: { type: { kind: "string" }, optional: true },
+      party_address: { type: { kind: "string" }, optional: true },
+      expires_at: { type: { kind: "string" }, optional: true },
+    },
+  },
+  LighthouseCnsResponse: {
+    kind: "object",
+    fields: {
+      cns: { type: { kind: "array", items: { kind: "ref", name: "LighthouseCnsRecord" } } },
+      pagination: { type: { kind: "ref", name: "LighthousePagination" }, optional: true },
+    },
+  },
+  LighthouseFeaturedApp: {
+    kind: "object",
+    fields: {
+      payload: { type: { kind: "object", fields: { provider: { type: { kind: "string" }, optional: true } } }, optional: true },
+      created_at: { type: { kind: "string" }, optional: true },
+      contract_id: { type: { kind: "string" }, optional: true },
+    },
+  },
+  LighthouseFeaturedAppsResponse: {
+    kind: "object",
+    fields: {
+      apps: { type: { kind: "array", items: { kind: "ref", name: "LighthouseFeaturedApp" } } },
+    },
+  },
+  LighthousePreapproval: {
+    kind: "object",
+    fields: {
+      id: { type: { kind: "number" } },
+      expired_at: { type: { kind: "string" }, optional: true },
+      created_at: { type: { kind: "string" }, optional: true },
+      provider: { type: { kind: "string" }, optional: true },
+      receiver: { type: { kind: "string" }, optional: true },
+    },
+  },
+  LighthousePreapprovalsResponse: {
+    kind: "object",
+    fields: {
+      pagination: { type: { kind: "ref", name: "LighthousePagination" } },
+      preapprovals: { type: { kind: "array", items: { kind: "ref", name: "LighthousePreapproval" } } },
+    },
+  },
+  LighthouseSearchResponse: {
+    kind: "object",
+    fields: {
+      validators: { type: { kind: "array", items: { kind: "ref", name: "LighthouseValidator" } }, optional: true },
+    },
+  },
+  LighthousePagination: {
+    kind: "object",
+    fields: {
+      has_next: { type: { kind: "boolean" }, optional: true },
+      has_previous: { type: { kind: "boolean" }, optional: true },
+      next_cursor: { type: { kind: "union", options: [{ kind: "string" }, { kind: "number" }] }, optional: true },
+      previous_cursor: { type: { kind: "union", options: [{ kind: "string" }, { kind: "number" }] }, optional: true },
+      next_cursor_id: { type: { kind: "number" }, optional: true },
+      previous_cursor_id: { type: { kind: "number" }, optional: true },
+    },
+  },
+};
@@ -1,5 +1,11 @@
-import { config } from "../config.js";
-import { fetch } from "undici";
+import { join } from "path";
+import { config, Network } from "../config.js";
+import { Budget, RequestResult, SharedState, UpstreamClient, UpstreamOptions } from "./http.js";
+import { DataSource } from "./sources.js";
+import { checkShape } from "./shapes.js";
+import { LIGHTHOUSE_SCHEMAS } from "./lighthouse.schemas.js";
+import { recordDrift } from "../storage/drift.js";
+import { Tape } from "./tape.js";
 
 // ── Real API response shapes (verified against live Lighthouse API) ───────────
 
@@ -41,6 +47,7 @@ export interface LighthouseValidatorDetail {
 export interface LighthouseValidatorsResponse {
   count: number;
   validators: LighthouseValidator[];
+  pagination?: LighthousePagination;
 }
 
 export interface LighthouseReward {
@@ -116,6 +123,7 @@ export interface LighthouseGovernanceResponse {
   count: number;
   total_sv: number;
   vote_requests: LighthouseGovernanceVote[];
+  pagination?: LighthousePagination;
 }
 
 export interface LighthouseContract {
@@ -189,44 +197,228 @@ export interface PaginationParams {
   cursor?: string;
 }
 
-type RequestResult<T> = { ok: true; data: T } | { ok: false; status: number; error: string };
+// One page yielded by LighthouseCollector.paginate. `cursor` is the cursor the
+// page was requested with, `nextCursor` is absent on the last page.
+export interface LighthousePage<T> {
+  items: T[];
+  cursor?: string;
+  nextCursor?: string;
+}
+
+export type PageIterator<T> = AsyncGenerator<RequestResult<LighthousePage<T>>, void>;
+
+function pageParams(params?: PaginationParams): Record<string, string> {
+  return {
+    ...(params?.page_size ? { page_size: String(params.page_size) } : {}),
+    ...(params?.page_token ? { page_token: params.page_token } : {}),
+    ...(params?.cursor ? { cursor: params.cursor } : {}),
+  };
+}
 
-class LighthouseCollector {
-  private readonly baseUrl: string;
-  private readonly timeoutMs: number;
+// Lighthouse returns either a string cursor or a numeric cursor id depending on
+// the endpoint — both are sent back as `cursor`.
+function nextCursor(pagination?: LighthousePagination): string | undefined {
+  if (!pagination || pagination.has_next === false) return undefined;
+  const next = pagination.next_cursor ?? pagination.next_cursor_id;
+  return next !== undefined && next !== null && next !== "" ? String(next) : undefined;
+}
 
-  constructor() {
-    this.baseUrl = config.lighthouse.baseUrl;
-    this.timeoutMs = config.lighthouse.timeoutMs;
+// Response interface per endpoint. Every payload from these endpoints is checked
+// against the generated schema; endpoints typed `unknown` are not listed.
+const RESPONSE_SCHEMAS: Record<string, string> = {
+  "/api/stats": "LighthouseStats",
+  "/api/validators": "LighthouseValidatorsResponse",
+  "/api/validators/:id": "LighthouseValidatorDetail",
+  "/api/parties/:id/rewards": "LighthouseRewardsResponse",
+  "/api/transactions": "LighthouseTransactionsResponse",
+  "/api/transactions/:id": "LighthouseTransaction",
+  "/api/transfers": "LighthouseTransfersResponse",
+  "/api/contracts": "LighthouseContractsResponse",
+  "/api/contracts/:id": "LighthouseContract",
+  "/api/rounds": "LighthouseRoundsResponse",
+  "/api/rounds/:id": "LighthouseRound",
+  "/api/governance": "LighthouseGovernanceResponse",
+  "/api/governance/:id": "LighthouseGovernanceVote",
+  "/api/cns": "LighthouseCnsResponse",
+  "/api/cns/:id": "LighthouseCnsRecord",
+  "/api/featured-apps": "LighthouseFeaturedAppsResponse",
+  "/api/preapprovals": "LighthousePreapprovalsResponse",
+  "/api/search": "LighthouseSearchResponse",
+};
+
+// The default network keeps its fixtures at the top level, others in a subdirectory
+function fixturesDir(network: Network): string {
+  const dir = config.lighthouse.fixturesDir;
+  return network === config.network ? dir : join(dir, network);
+}
+
+export class LighthouseCollector extends UpstreamClient implements DataSource {
+  readonly kind = "lighthouse";
+
+  constructor(
+    readonly network: Network = config.network,
+    opts: Partial<UpstreamOptions> = {},
+    budget: Budget = "api",
+    shared?: SharedState,
+  ) {
+    super(
+      "lighthouse",
+      {
+        baseUrls: config.perNetwork[network].lighthouseUrls,
+        timeoutMs: config.lighthouse.timeoutMs,
+        retries: config.lighthouse.retries,
+        retryBaseMs: config.lighthouse.retryBaseMs,
+        retryMaxMs: config.lighthouse.retryMaxMs,
+        breakerThreshold: config.lighthouse.breakerThreshold,
+        breakerCooldownMs: config.lighthouse.breakerCooldownMs,
+        limits: config.lighthouse.limits,
+        tape:
+          config.lighthouse.mode === "live"
+            ? null
+            : new Tape(config.lighthouse.mode, fixturesDir(network)),
+        ...opts,
+      },
+      budget,
+      shared,
+    );
   }
 
-  private async get<T>(path: string, params?: Record<string, string>): Promise<RequestResult<T>> {
-    const url = new URL(path, this.baseUrl);
-    if (params) {
-      for (const [k, v] of Object.entries(params)) {
-        if (v !== undefined && v !== "") url.searchParams.set(k, v);
-      }
-    }
+  // Same upstream, breakers and limiters — requests are charged to `budget`
+  withBudget(budget: Budget): LighthouseCollector {
+    return new LighthouseCollector(this.network, this.opts, budget, this.shared);
+  }
 
-    try {
-      const res = await fetch(url.toString(), {
-        signal: AbortSignal.timeout(this.timeoutMs),
-        headers: { Accept: "application/json" },
-      });
+  protected inspect(endpoint: string, data: unknown): void {
+    const schema = RESPONSE_SCHEMAS[endpoint];
+    if (!schema) return;
+    const issues = checkShape(LIGHTHOUSE_SCHEMAS, schema, data);
+    if (issues.length > 0) void recordDrift(this.network, "lighthouse", endpoint, schema, issues);
+  }
 
+  // ── Pagination ───────────────────────────────────────────────────────────
+
+  /**
+   * Walks a cursor-paginated list endpoint newest-first, yielding one page at a
+   * time. The walk ends after the last page, after `maxPages`, or right after a
+   * failed request is yielded — the consumer decides what a partial walk means.
+   */
+  async *paginate<R extends { pagination?: LighthousePagination }, T>(
+    fetchPage: (params: PaginationParams) => Promise<RequestResult<R>>,
+    pick: (data: R) => T[] | undefined,
+    params: PaginationParams = {},
+    maxPages = Infinity,
+  ): PageIterator<T> {
+    let cursor = params.cursor;
+    for (let page = 0; page < maxPages; page++) {
+      const res = await fetchPage({ ...params, cursor });
       if (!res.ok) {
-        const text = await res.text().catch(() => "");
-        return { ok: false, status: res.status, error: text.slice(0, 200) };
+        yield res;
+        return;
       }
-
-      const data = (await res.json()) as T;
-      return { ok: true, data };
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      return { ok: false, status: 0, error: msg };
+      const items = pick(res.data) ?? [];
+      const next = nextCursor(res.data.pagination);
+      // Guard against an upstream that hands back the same cursor forever
+      const done = items.length === 0 || next === undefined || next === cursor;
+      yield { ok: true, data: { items, cursor, nextCursor: done ? undefined : next } };
+      if (done) return;
+      cursor = next;
     }
   }
 
+  pageValidators(params?: PaginationParams, maxPages?: number): PageIterator<LighthouseValidator> {
+    return this.paginate(
+      (p) => this.getValidators(p),
+      (d) => d.validators,
+      params,
+      maxPages,
+    );
+  }
+
+  pageTransactions(
+    params?: PaginationParams,
+    maxPages?: number,
+  ): PageIterator<LighthouseTransaction> {
+    return this.paginate(
+      (p) => this.getTransactions(p),
+      (d) => d.transactions,
+      params,
+      maxPages,
+    );
+  }
+
+  pageTransfers(params?: PaginationParams, maxPages?: number): PageIterator<LighthouseTransfer> {
+    return this.paginate(
+      (p) => this.getTransfers(p),
+      (d) => d.transfers,
+      params,
+      maxPages,
+    );
+  }
+
+  pageRounds(params?: PaginationParams, maxPages?: number): PageIterator<LighthouseRound> {
+    return this.paginate(
+      (p) => this.getRounds(p),
+      (d) => d.rounds,
+      params,
+      maxPages,
+    );
+  }
+
+  pagePartyRewards(
+    partyId: string,
+    params?: PaginationParams,
+    maxPages?: number,
+  ): PageIterator<LighthouseReward> {
+    return this.paginate(
+      (p) => this.getPartyRewards(partyId, p),
+      (d) => d.rewards,
+      params,
+      maxPages,
+    );
+  }
+
+  pageContracts(params?: PaginationParams, maxPages?: number): PageIterator<LighthouseContract> {
+    return this.paginate(
+      (p) => this.getContracts(p),
+      (d) => d.contracts,
+      params,
+      maxPages,
+    );
+  }
+
+  pageCnsRecords(params?: PaginationParams, maxPages?: number): PageIterator<LighthouseCnsRecord> {
+    return this.paginate(
+      (p) => this.getCnsRecords(p),
+      (d) => d.cns,
+      params,
+      maxPages,
+    );
+  }
+
+  pageGovernanceVotes(
+    params?: PaginationParams,
+    maxPages?: number,
+  ): PageIterator<LighthouseGovernanceVote> {
+    return this.paginate(
+      (p) => this.getGovernanceVotes(p),
+      (d) => d.vote_requests,
+      params,
+      maxPages,
+    );
+  }
+
+  pagePreapprovals(
+    params?: PaginationParams,
+    maxPages?: number,
+  ): PageIterator<LighthousePreapproval> {
+    return this.paginate(
+      (p) => this.getPreapprovals(p),
+      (d) => d.preapprovals,
+      params,
+      maxPages,
+    );
+  }
+
   // ── Stats ────────────────────────────────────────────────────────────────
   // cc_price is embedded in stats response — no separate prices endpoint exists
 
@@ -239,9 +431,7 @@ class LighthouseCollector {
   async getValidators(
     params?: PaginationParams,
   ): Promise<RequestResult<LighthouseValidatorsResponse>> {
-    return this.get<LighthouseValidatorsResponse>("/api/validators", {
-      ...(params?.page_size ? { page_size: String(params.page_size) } : {}),
-    });
+    return this.get<LighthouseValidatorsResponse>("/api/validators", pageParams(params));
   }
 
   async getValidator(id: string): Promise<RequestResult<LighthouseValidatorDetail>> {
@@ -256,14 +446,15 @@ class LighthouseCollector {
   ): Promise<RequestResult<LighthouseRewardsResponse>> {
     return this.get<LighthouseRewardsResponse>(
       `/api/parties/${encodeURIComponent(partyId)}/rewards`,
-      { ...(params?.page_size ? { page_size: String(params.page_size) } : {}) },
+      pageParams(params),
     );
   }
 
   async getPartyBurns(partyId: string, params?: PaginationParams): Promise<RequestResult<unknown>> {
-    return this.get<unknown>(`/api/parties/${encodeURIComponent(partyId)}/burns`, {
-      ...(params?.page_size ? { page_size: String(params.page_size) } : {}),
-    });
+    return this.get<unknown>(
+      `/api/parties/${encodeURIComponent(partyId)}/burns`,
+      pageParams(params),
+    );
   }
 
   async getPartyPnl(partyId: string): Promise<RequestResult<unknown>> {
@@ -274,18 +465,20 @@ class LighthouseCollector {
     partyId: string,
     params?: PaginationParams,
   ): Promise<RequestResult<unknown>> {
-    return this.get<unknown>(`/api/parties/${encodeURIComponent(partyId)}/transfers`, {
-      ...(params?.page_size ? { page_size: String(params.page_size) } : {}),
-    });
+    return this.get<unknown>(
+      `/api/parties/${encodeURIComponent(partyId)}/transfers`,
+      pageParams(params),
+    );
   }
 
   async getPartyTransactions(
     partyId: string,
     params?: PaginationParams,
   ): Promise<RequestResult<unknown>> {
-    return this.get<unknown>(`/api/parties/${encodeURIComponent(partyId)}/transactions`, {
-      ...(params?.page_size ? { page_size: String(params.page_size) } : {}),
-    });
+    return this.get<unknown>(
+      `/api/parties/${encodeURIComponent(partyId)}/transactions`,
+      pageParams(params),
+    );
   }
 
   async getPartyBurnStats(partyId: string): Promise<RequestResult<unknown>> {
@@ -305,9 +498,7 @@ class LighthouseCollector {
   async getTransactions(
     params?: PaginationParams,
   ): Promise<RequestResult<LighthouseTransactionsResponse>> {
-    return this.get<LighthouseTransactionsResponse>("/api/transactions", {
-      ...(params?.page_size ? { page_size: String(params.page_size) } : {}),
-    });
+    return this.get<LighthouseTransactionsResponse>("/api/transactions", pageParams(params));
   }
 
   async getTransaction(updateId: string): Promise<RequestResult<LighthouseTransaction>> {
@@ -319,9 +510,7 @@ class LighthouseCollector {
   async getTransfers(
     params?: PaginationParams,
   ): Promise<RequestResult<LighthouseTransfersResponse>> {
-    return this.get<LighthouseTransfersResponse>("/api/transfers", {
-      ...(params?.page_size ? { page_size: String(params.page_size) } : {}),
-    });
+    return this.get<LighthouseTransfersResponse>("/api/transfers", pageParams(params));
   }
 
   // Note: GET /api/transfers/:id → HTTP 500 (known Lighthouse bug) — not implemented
@@ -331,9 +520,7 @@ class LighthouseCollector {
   async getContracts(
     params?: PaginationParams,
   ): Promise<RequestResult<LighthouseContractsResponse>> {
-    return this.get<LighthouseContractsResponse>("/api/contracts", {
-      ...(params?.page_size ? { page_size: String(params.page_size) } : {}),
-    });
+    return this.get<LighthouseContractsResponse>("/api/contracts", pageParams(params));
   }
 
   async getContract(contractId: string): Promise<RequestResult<LighthouseContract>> {
@@ -343,9 +530,7 @@ class LighthouseCollector {
   // ── Rounds ───────────────────────────────────────────────────────────────
 
   async getRounds(params?: PaginationParams): Promise<RequestResult<LighthouseRoundsResponse>> {
-    return this.get<LighthouseRoundsResponse>("/api/rounds", {
-      ...(params?.page_size ? { page_size: String(params.page_size) } : {}),
-    });
+    return this.get<LighthouseRoundsResponse>("/api/rounds", pageParams(params));
   }
 
   async getRound(roundNumber: number): Promise<RequestResult<LighthouseRound>> {
@@ -357,9 +542,7 @@ class LighthouseCollector {
   async getGovernanceVotes(
     params?: PaginationParams,
   ): Promise<RequestResult<LighthouseGovernanceResponse>> {
-    return this.get<LighthouseGovernanceResponse>("/api/governance", {
-      ...(params?.page_size ? { page_size: String(params.page_size) } : {}),
-    });
+    return this.get<LighthouseGovernanceResponse>("/api/governance", pageParams(params));
   }
 
   async getGovernanceStats(): Promise<RequestResult<unknown>> {
@@ -373,15 +556,23 @@ class LighthouseCollector {
   // ── CNS ──────────────────────────────────────────────────────────────────
 
   async getCnsRecords(params?: PaginationParams): Promise<RequestResult<LighthouseCnsResponse>> {
-    return this.get<LighthouseCnsResponse>("/api/cns", {
-      ...(params?.page_size ? { page_size: String(params.page_size) } : {}),
-    });
+    return this.get<LighthouseCnsResponse>("/api/cns", pageParams(params));
   }
 
   async getCnsRecord(domain: string): Promise<RequestResult<LighthouseCnsRecord>> {
     return this.get<LighthouseCnsRecord>(`/api/cns/${encodeURIComponent(domain)}`);
   }
 
+  // ── DataSource ───────────────────────────────────────────────────────────
+
+  lookupUpdate(updateId: string): Promise<RequestResult<LighthouseTransaction>> {
+    return this.getTransaction(updateId);
+  }
+
+  lookupName(name: string): Promise<RequestResult<LighthouseCnsRecord>> {
+    return this.getCnsRecord(name);
+  }
+
   // ── Featured Apps ────────────────────────────────────────────────────────
 
   async getFeaturedApps(): Promise<RequestResult<LighthouseFeaturedAppsResponse>> {
@@ -393,9 +584,7 @@ class LighthouseCollector {
   async getPreapprovals(
     params?: PaginationParams,
   ): Promise<RequestResult<LighthousePreapprovalsResponse>> {
-    return this.get<LighthousePreapprovalsResponse>("/api/preapprovals", {
-      ...(params?.page_size ? { page_size: String(params.page_size) } : {}),
-    });
+    return this.get<LighthousePreapprovalsResponse>("/api/preapprovals", pageParams(params));
   }
 
   // ── Search ───────────────────────────────────────────────────────────────
@@ -405,4 +594,16 @@ class LighthouseCollector {
   }
 }
 
-export const lighthouse = new LighthouseCollector();
+// One collector pair per network, created on first use. Routes use the "api"
+// budget; the scheduler and backfill use "ingest".
+const collectors = new Map<Network, Record<Budget, LighthouseCollector>>();
+
+export function lighthouseFor(network: Network, budget: Budget = "api"): LighthouseCollector {
+  let pair = collectors.get(network);
+  if (!pair) {
+    const api = new LighthouseCollector(network);
+    pair = { api, ingest: api.withBudget("ingest") };
+    collectors.set(network, pair);
+  }
+  return pair[budget];
+}
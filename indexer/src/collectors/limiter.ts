@@ -0,0 +1,92 @@
+import { sleep } from "./resilience.js";
+
+export interface LimiterOptions {
+  // Sustained requests per second; 0 disables the token bucket
+  ratePerSec: number;
+  // Bucket size — how many requests may go out back-to-back after idling
+  burst: number;
+  // Max requests in flight at once; 0 disables the cap
+  maxInFlight: number;
+}
+
+export interface LimiterSnapshot {
+  budget: string;
+  in_flight: number;
+  queued: number;
+  tokens: number;
+}
+
+/**
+ * Token bucket plus a max-in-flight semaphore. `run` waits for a free slot, then
+ * for a token, then calls `fn` — so both the request rate and the concurrency
+ * towards the upstream stay bounded no matter how many callers pile up.
+ */
+export class RateLimiter {
+  private tokens: number;
+  // At least one token, or takeToken() would wait forever
+  private readonly capacity: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(
+    readonly budget: string,
+    private readonly opts: LimiterOptions,
+  ) {
+    this.capacity = Math.max(1, opts.burst);
+    this.tokens = this.capacity;
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+    try {
+      await this.takeToken();
+      return await fn();
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  snapshot(): LimiterSnapshot {
+    this.refill();
+    return {
+      budget: this.budget,
+      in_flight: this.inFlight,
+      queued: this.waiters.length,
+      tokens: Math.floor(this.tokens),
+    };
+  }
+
+  private refill(now = Date.now()): void {
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.opts.ratePerSec);
+    this.lastRefill = now;
+  }
+
+  private async takeToken(): Promise<void> {
+    if (this.opts.ratePerSec <= 0) return;
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.opts.ratePerSec) * 1000));
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.opts.maxInFlight <= 0 || this.inFlight < this.opts.maxInFlight) {
+      this.inFlight++;
+      return;
+    }
+    // The releasing caller hands its slot straight to us, so inFlight is unchanged
+    await new Promise<void>((resolve) => this.waiters.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiters.shift();
+    if (next) next();
+    else this.inFlight--;
+  }
+}
@@ -0,0 +1,120 @@
+// Retry and circuit-breaker primitives shared by the upstream collectors.
+
+export type BreakerState = "closed" | "open" | "half_open";
+
+export interface BreakerOptions {
+  // Consecutive failures before the breaker opens
+  threshold: number;
+  // How long an open breaker fails fast before letting a trial request through
+  cooldownMs: number;
+}
+
+export interface BreakerSnapshot {
+  endpoint: string;
+  state: BreakerState;
+  consecutive_failures: number;
+  opened_at: string | null;
+  last_error: string | null;
+}
+
+/**
+ * Classic three-state breaker. While open, `allow()` is false until the cooldown
+ * elapses; then one trial request is let through (half-open) and its outcome
+ * either closes the breaker or re-opens it for another cooldown.
+ */
+export class CircuitBreaker {
+  private state: BreakerState = "closed";
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastError: string | null = null;
+
+  constructor(
+    readonly endpoint: string,
+    private readonly opts: BreakerOptions,
+  ) {}
+
+  allow(now = Date.now()): boolean {
+    if (this.state === "closed") return true;
+    if (this.state === "open") {
+      if (this.openedAt !== null && now - this.openedAt < this.opts.cooldownMs) return false;
+      this.state = "half_open";
+      this.trialInFlight = false;
+    }
+    // half-open: exactly one trial at a time
+    if (this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  onSuccess(): void {
+    this.state = "closed";
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+    this.lastError = null;
+  }
+
+  // The request was cancelled by its caller: it says nothing about the upstream,
+  // but a half-open breaker must not keep waiting for its trial to report back
+  onCancel(): void {
+    this.trialInFlight = false;
+  }
+
+  onFailure(error: string, now = Date.now()): void {
+    this.failures++;
+    this.lastError = error;
+    this.trialInFlight = false;
+    if (this.state === "half_open" || this.failures >= this.opts.threshold) {
+      if (this.state !== "open") {
+        console.warn(`[breaker] ${this.endpoint} open after ${this.failures} failures: ${error}`);
+      }
+      this.state = "open";
+      this.openedAt = now;
+    }
+  }
+
+  snapshot(): BreakerSnapshot {
+    return {
+      endpoint: this.endpoint,
+      state: this.state,
+      consecutive_failures: this.failures,
+      opened_at: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      last_error: this.lastError,
+    };
+  }
+}
+
+export interface RetryOptions {
+  retries: number;
+  baseMs: number;
+  maxMs: number;
+}
+
+// Full jitter: uniform in [0, min(max, base * 2^attempt)]
+export function backoffDelay(attempt: number, opts: RetryOptions): number {
+  const ceiling = Math.min(opts.maxMs, opts.baseMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// Resolves early (without throwing) once `signal` aborts
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((r) => {
+    if (signal?.aborted) return r();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      r();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
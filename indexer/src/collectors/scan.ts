@@ -0,0 +1,238 @@
+import { config } from "../config.js";
+import { Budget, RequestResult, SharedState, UpstreamClient, UpstreamOptions } from "./http.js";
+import { LighthousePage, PageIterator } from "./lighthouse.js";
+import { DataSource } from "./sources.js";
+
+// ── SV Scan API response shapes (Splice scan, /api/scan prefix in SCAN_API_URL) ─
+
+export interface ScanContract {
+  template_id: string;
+  contract_id: string;
+  payload: Record<string, unknown>;
+  created_event_blob?: string;
+  created_at: string;
+  [key: string]: unknown;
+}
+
+export interface ScanContractWithState {
+  contract: ScanContract;
+  domain_id?: string;
+}
+
+export interface ScanDsoInfo {
+  sv_user: string;
+  sv_party_id: string;
+  dso_party_id: string;
+  voting_threshold: number;
+  latest_mining_round: ScanContractWithState;
+  amulet_rules: ScanContractWithState;
+  dso_rules: ScanContractWithState;
+  sv_node_states?: ScanContractWithState[];
+  [key: string]: unknown;
+}
+
+export interface ScanOpenAndIssuingRoundsResponse {
+  time_to_live_in_microseconds: number;
+  open_mining_rounds: Record<string, ScanContractWithState>;
+  issuing_mining_rounds: Record<string, ScanContractWithState>;
+}
+
+export interface ScanClosedRoundsResponse {
+  rounds: ScanContractWithState[];
+}
+
+export interface ScanAnsEntry {
+  contract_id?: string | null;
+  user: string;
+  name: string;
+  url: string;
+  description: string;
+  expires_at?: string | null;
+  [key: string]: unknown;
+}
+
+export interface ScanAnsEntriesResponse {
+  entries: ScanAnsEntry[];
+}
+
+export interface ScanAmuletRulesResponse {
+  amulet_rules_update: ScanContractWithState;
+}
+
+export interface ScanUpdate {
+  update_id: string;
+  migration_id: number;
+  workflow_id?: string;
+  record_time: string;
+  synchronizer_id?: string;
+  effective_at?: string;
+  root_event_ids?: string[];
+  events_by_id?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface ScanUpdatesResponse {
+  transactions: ScanUpdate[];
+}
+
+// Position in the update stream: updates strictly after (migration, record time)
+export interface ScanUpdatesAfter {
+  after_migration_id: number;
+  after_record_time: string;
+}
+
+// Mining round contracts carry the number as payload.round.number (a string)
+export function scanRoundNumber(c: ScanContract): number | null {
+  const round = c.payload["round"] as { number?: string | number } | undefined;
+  const n = round?.number !== undefined ? Number(round.number) : NaN;
+  return isNaN(n) ? null : n;
+}
+
+export function encodeUpdatesCursor(after: ScanUpdatesAfter): string {
+  return `${after.after_migration_id}|${after.after_record_time}`;
+}
+
+export function decodeUpdatesCursor(cursor: string): ScanUpdatesAfter | null {
+  const sep = cursor.indexOf("|");
+  if (sep === -1) return null;
+  const migration = Number(cursor.slice(0, sep));
+  if (isNaN(migration)) return null;
+  return { after_migration_id: migration, after_record_time: cursor.slice(sep + 1) };
+}
+
+export class ScanCollector extends UpstreamClient implements DataSource {
+  readonly kind = "scan";
+
+  constructor(opts: Partial<UpstreamOptions> = {}, budget: Budget = "api", shared?: SharedState) {
+    super(
+      "scan",
+      {
+        baseUrls: config.scanApi.urls,
+        timeoutMs: config.scanApi.timeoutMs,
+        retries: config.lighthouse.retries,
+        retryBaseMs: config.lighthouse.retryBaseMs,
+        retryMaxMs: config.lighthouse.retryMaxMs,
+        breakerThreshold: config.lighthouse.breakerThreshold,
+        breakerCooldownMs: config.lighthouse.breakerCooldownMs,
+        limits: config.lighthouse.limits,
+        ...opts,
+      },
+      budget,
+      shared,
+    );
+  }
+
+  withBudget(budget: Budget): ScanCollector {
+    return new ScanCollector(this.opts, budget, this.shared);
+  }
+
+  // ── DSO ──────────────────────────────────────────────────────────────────
+
+  async getDsoInfo(): Promise<RequestResult<ScanDsoInfo>> {
+    return this.get<ScanDsoInfo>("/v0/dso");
+  }
+
+  // ── Rounds ───────────────────────────────────────────────────────────────
+
+  async getOpenAndIssuingMiningRounds(): Promise<RequestResult<ScanOpenAndIssuingRoundsResponse>> {
+    // Empty caches → the full current set is returned
+    return this.post<ScanOpenAndIssuingRoundsResponse>("/v0/open-and-issuing-mining-rounds", {
+      cached_open_mining_round_contract_ids: [],
+      cached_issuing_round_contract_ids: [],
+    });
+  }
+
+  async getClosedRounds(): Promise<RequestResult<ScanClosedRoundsResponse>> {
+    return this.get<ScanClosedRoundsResponse>("/v0/closed-rounds");
+  }
+
+  // ── Amulet rules / config ────────────────────────────────────────────────
+
+  async getAmuletRules(): Promise<RequestResult<ScanAmuletRulesResponse>> {
+    return this.post<ScanAmuletRulesResponse>("/v0/amulet-rules", {});
+  }
+
+  // ── ANS ──────────────────────────────────────────────────────────────────
+
+  async getAnsEntries(params?: {
+    page_size?: number;
+    name_prefix?: string;
+  }): Promise<RequestResult<ScanAnsEntriesResponse>> {
+    return this.get<ScanAnsEntriesResponse>("/v0/ans-entries", {
+      page_size: String(params?.page_size ?? 1000),
+      ...(params?.name_prefix ? { name_prefix: params.name_prefix } : {}),
+    });
+  }
+
+  async getAnsEntryByName(name: string): Promise<RequestResult<{ entry: ScanAnsEntry }>> {
+    return this.get<{ entry: ScanAnsEntry }>(`/v0/ans-entries/by-name/${encodeURIComponent(name)}`);
+  }
+
+  // ── Updates ──────────────────────────────────────────────────────────────
+
+  async getUpdates(
+    after: ScanUpdatesAfter | null,
+    pageSize = 100,
+  ): Promise<RequestResult<ScanUpdatesResponse>> {
+    return this.post<ScanUpdatesResponse>("/v2/updates", {
+      page_size: pageSize,
+      ...(after ? { after } : {}),
+    });
+  }
+
+  async getUpdate(updateId: string): Promise<RequestResult<ScanUpdate>> {
+    return this.get<ScanUpdate>(`/v2/updates/${encodeURIComponent(updateId)}`);
+  }
+
+  // ── DataSource ───────────────────────────────────────────────────────────
+
+  lookupUpdate(updateId: string): Promise<RequestResult<ScanUpdate>> {
+    return this.getUpdate(updateId);
+  }
+
+  async lookupName(name: string): Promise<RequestResult<ScanAnsEntry>> {
+    const res = await this.getAnsEntryByName(name);
+    return res.ok ? { ...res, data: res.data.entry } : res;
+  }
+
+  /**
+   * Streams updates oldest-first across migrations, starting strictly after
+   * `after`. Unlike Lighthouse lists this walks forwards; each page's
+   * `nextCursor` encodes the last update seen (see encodeUpdatesCursor) and is
+   * absent once the stream has caught up with the ledger.
+   */
+  async *pageUpdates(
+    after: ScanUpdatesAfter | null,
+    pageSize = 100,
+    maxPages = Infinity,
+  ): PageIterator<ScanUpdate> {
+    let position = after;
+    for (let page = 0; page < maxPages; page++) {
+      const res = await this.getUpdates(position, pageSize);
+      if (!res.ok) {
+        yield res;
+        return;
+      }
+      const items = res.data.transactions ?? [];
+      const last = items[items.length - 1];
+      const cursor = position ? encodeUpdatesCursor(position) : undefined;
+      if (!last) {
+        yield { ok: true, data: { items, cursor } };
+        return;
+      }
+      position = { after_migration_id: last.migration_id, after_record_time: last.record_time };
+      const caughtUp = items.length < pageSize;
+      const data: LighthousePage<ScanUpdate> = {
+        items,
+        cursor,
+        nextCursor: caughtUp ? undefined : encodeUpdatesCursor(position),
+      };
+      yield { ok: true, data };
+      if (caughtUp) return;
+    }
+  }
+}
+
+// Routes use `scan`; the scheduler uses `scanIngest`
+export const scan = new ScanCollector();
+export const scanIngest = scan.withBudget("ingest");
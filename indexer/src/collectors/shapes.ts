@@ -0,0 +1,153 @@
+// Runtime shape descriptors for upstream payloads and the checker that compares
+// a payload against them. The descriptors themselves are generated from the
+// TypeScript interfaces (see scripts/gen-schemas.ts), never written by hand.
+
+export type TypeSchema =
+  | { kind: "string" | "number" | "boolean" | "null" | "unknown" }
+  | { kind: "array"; items: TypeSchema }
+  | { kind: "ref"; name: string }
+  | { kind: "union"; options: TypeSchema[] }
+  | ObjectSchema;
+
+export interface ObjectSchema {
+  kind: "object";
+  fields: Record<string, FieldSchema>;
+}
+
+export interface FieldSchema {
+  type: TypeSchema;
+  optional?: boolean;
+}
+
+export type DriftKind = "missing_field" | "type_changed" | "new_field";
+
+export interface DriftIssue {
+  // JSONPath-like location, e.g. "$.transactions[].record_time"
+  path: string;
+  kind: DriftKind;
+  expected: string | null;
+  actual: string | null;
+  // The offending value (first occurrence) — absent for missing fields
+  sample?: unknown;
+}
+
+type Schemas = Record<string, ObjectSchema>;
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function resolve(schemas: Schemas, t: TypeSchema): TypeSchema {
+  return t.kind === "ref" ? (schemas[t.name] ?? { kind: "unknown" }) : t;
+}
+
+export function describe(t: TypeSchema): string {
+  switch (t.kind) {
+    case "array":
+      return `${describe(t.items)}[]`;
+    case "ref":
+      return t.name;
+    case "union":
+      return t.options.map(describe).join(" | ");
+    default:
+      return t.kind;
+  }
+}
+
+// Top-level match only: does the value have the right JSON type for `t`?
+function matches(schemas: Schemas, t: TypeSchema, value: unknown): boolean {
+  const r = resolve(schemas, t);
+  if (r.kind === "unknown") return true;
+  if (r.kind === "union") return r.options.some((o) => matches(schemas, o, value));
+  return r.kind === typeOf(value);
+}
+
+function check(
+  schemas: Schemas,
+  t: TypeSchema,
+  value: unknown,
+  path: string,
+  out: Map<string, DriftIssue>,
+): void {
+  const add = (issue: DriftIssue) => {
+    // Array elements share a path; the first offender is kept as the sample
+    const key = `${issue.kind}:${issue.path}`;
+    if (!out.has(key)) out.set(key, issue);
+  };
+
+  const r = resolve(schemas, t);
+  if (r.kind === "unknown") return;
+
+  if (r.kind === "union") {
+    const option = r.options.find((o) => matches(schemas, o, value));
+    if (!option) {
+      add({
+        path,
+        kind: "type_changed",
+        expected: describe(t),
+        actual: typeOf(value),
+        sample: value,
+      });
+      return;
+    }
+    check(schemas, option, value, path, out);
+    return;
+  }
+
+  if (r.kind !== typeOf(value)) {
+    add({
+      path,
+      kind: "type_changed",
+      expected: describe(t),
+      actual: typeOf(value),
+      sample: value,
+    });
+    return;
+  }
+
+  if (r.kind === "array") {
+    for (const item of value as unknown[]) check(schemas, r.items, item, `${path}[]`, out);
+    return;
+  }
+
+  if (r.kind === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const [name, field] of Object.entries(r.fields)) {
+      const v = obj[name];
+      if (v === undefined) {
+        if (!field.optional) {
+          add({
+            path: `${path}.${name}`,
+            kind: "missing_field",
+            expected: describe(field.type),
+            actual: null,
+          });
+        }
+        continue;
+      }
+      check(schemas, field.type, v, `${path}.${name}`, out);
+    }
+    // Index signatures allow extra keys at compile time, but a field we have
+    // never declared is exactly what we want to hear about
+    for (const name of Object.keys(obj)) {
+      if (!(name in r.fields)) {
+        add({
+          path: `${path}.${name}`,
+          kind: "new_field",
+          expected: null,
+          actual: typeOf(obj[name]),
+          sample: obj[name],
+        });
+      }
+    }
+  }
+}
+
+/** Compares `value` against the named root schema; an empty list means no drift. */
+export function checkShape(schemas: Schemas, root: string, value: unknown): DriftIssue[] {
+  const out = new Map<string, DriftIssue>();
+  check(schemas, { kind: "ref", name: root }, value, "$", out);
+  return [...out.values()];
+}
@@ -0,0 +1,51 @@
+import { config, Network } from "../config.js";
+import { RequestResult, UpstreamState } from "./http.js";
+import { lighthouseFor } from "./lighthouse.js";
+import { scan } from "./scan.js";
+
+export type SourceKind = "lighthouse" | "scan";
+
+/**
+ * The lookups that more than one upstream can answer. Each collector fails over
+ * between its own mirrors; `fromSources` fails over between collectors.
+ */
+export interface DataSource {
+  readonly kind: SourceKind;
+  isHealthy(): boolean;
+  upstreamStates(): UpstreamState[];
+  // A ledger update (transaction) by its update id
+  lookupUpdate(updateId: string): Promise<RequestResult<Record<string, unknown>>>;
+  // A name-service record — CNS on Lighthouse, ANS on Scan — by name
+  lookupName(name: string): Promise<RequestResult<Record<string, unknown>>>;
+}
+
+export type Served<T> = RequestResult<T> & { source: SourceKind };
+
+// Configured sources, Scan first when SCAN_API_PREFERRED; healthy ones before the
+// rest. Scan only serves the default network.
+export function dataSources(network: Network = config.network): DataSource[] {
+  const withScan = config.scanApi.enabled && network === config.network;
+  const list: DataSource[] = [];
+  if (withScan && config.scanApi.preferred) list.push(scan);
+  list.push(lighthouseFor(network));
+  if (withScan && !config.scanApi.preferred) list.push(scan);
+  return [...list.filter((s) => s.isHealthy()), ...list.filter((s) => !s.isHealthy())];
+}
+
+/**
+ * Asks each source in turn until one answers. Any failure — a 404 included,
+ * since sources index different things — moves on to the next; the last
+ * failure is returned when none of them answers.
+ */
+export async function fromSources<T>(
+  network: Network,
+  call: (s: DataSource) => Promise<RequestResult<T>>,
+): Promise<Served<T>> {
+  let last: Served<T> | null = null;
+  for (const s of dataSources(network)) {
+    const res = await call(s);
+    if (res.ok) return { ...res, source: s.kind };
+    last = { ...res, source: s.kind };
+  }
+  return last ?? { ok: false, status: 503, error: "no upstream configured", source: "lighthouse" };
+}
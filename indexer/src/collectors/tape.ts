@@ -0,0 +1,102 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { RequestResult } from "./http.js";
+
+// Record/replay of upstream traffic as fixture files, so pollers and routes can
+// run against canned responses with no network access.
+
+export type TapeMode = "live" | "record" | "replay";
+
+export const TAPE_MODES: TapeMode[] = ["live", "record", "replay"];
+
+// One fixture file: the request that was made and the result it produced
+export interface TapeEntry {
+  method: string;
+  // Path and sorted query string, without the mirror host
+  path: string;
+  body?: unknown;
+  status: number;
+  data?: unknown;
+  error?: string;
+  retry_after_ms?: number | null;
+  recorded_at: string;
+}
+
+function requestPath(url: URL): string {
+  const params = new URLSearchParams(url.searchParams);
+  params.sort();
+  const qs = params.toString();
+  return qs ? `${url.pathname}?${qs}` : url.pathname;
+}
+
+export class Tape {
+  constructor(
+    readonly mode: Exclude<TapeMode, "live">,
+    readonly dir: string,
+  ) {}
+
+  // "GET_api_transactions_page_size_100_3f2a9c01de.json" — readable, and unique
+  // per method + path + query + body
+  fileFor(method: string, url: URL, body?: unknown): string {
+    const path = requestPath(url);
+    const hash = createHash("sha1")
+      .update(`${method} ${path} ${JSON.stringify(body ?? null)}`)
+      .digest("hex")
+      .slice(0, 10);
+    const slug = path
+      .replace(/[^a-zA-Z0-9]+/g, "_")
+      .replace(/^_|_$/g, "")
+      .slice(0, 80);
+    return join(this.dir, `${method}_${slug}_${hash}.json`);
+  }
+
+  async replay<T>(
+    method: string,
+    url: URL,
+    body?: unknown,
+  ): Promise<{ result: RequestResult<T>; retryAfterMs: number | null }> {
+    const file = this.fileFor(method, url, body);
+    let entry: TapeEntry;
+    try {
+      entry = JSON.parse(await readFile(file, "utf8")) as TapeEntry;
+    } catch {
+      // 501 is not retried and does not trip the breaker — a missing fixture is a test bug
+      console.warn(`[tape] no fixture for ${method} ${requestPath(url)} (${file})`);
+      return {
+        result: { ok: false, status: 501, error: `no fixture for ${method} ${requestPath(url)}` },
+        retryAfterMs: null,
+      };
+    }
+    const result: RequestResult<T> =
+      entry.status >= 200 && entry.status < 300
+        ? { ok: true, data: entry.data as T }
+        : { ok: false, status: entry.status, error: entry.error ?? "" };
+    return { result, retryAfterMs: entry.retry_after_ms ?? null };
+  }
+
+  // Later responses to the same request overwrite earlier ones, so a retried
+  // request ends up recorded with its final outcome
+  async record(
+    method: string,
+    url: URL,
+    body: unknown,
+    out: { result: RequestResult<unknown>; retryAfterMs: number | null },
+  ): Promise<void> {
+    const entry: TapeEntry = {
+      method,
+      path: requestPath(url),
+      ...(body !== undefined ? { body } : {}),
+      status: out.result.ok ? 200 : out.result.status,
+      ...(out.result.ok ? { data: out.result.data } : { error: out.result.error }),
+      retry_after_ms: out.retryAfterMs,
+      recorded_at: new Date().toISOString(),
+    };
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(this.fileFor(method, url, body), JSON.stringify(entry, null, 2) + "\n");
+    } catch (err) {
+      console.error(`[tape] failed to record ${method} ${entry.path}`, err);
+    }
+  }
+}
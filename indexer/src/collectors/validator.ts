@@ -0,0 +1,163 @@
+import { config } from "../config.js";
+import { TokenProvider, validatorTokenProvider } from "./auth.js";
+import { Budget, RequestResult, SharedState, UpstreamClient, UpstreamOptions } from "./http.js";
+import { LighthousePage, PageIterator } from "./lighthouse.js";
+
+// ── Validator / wallet API response shapes (Splice validator app) ─────────────
+
+export interface WalletUserStatus {
+  party_id: string;
+  user_onboarded: boolean;
+  user_wallet_installed: boolean;
+  has_featured_app_right: boolean;
+  [key: string]: unknown;
+}
+
+export interface WalletBalance {
+  round: number;
+  effective_unlocked_qty: string;
+  effective_locked_qty: string;
+  total_holding_fees: string;
+  [key: string]: unknown;
+}
+
+export interface WalletContract {
+  template_id: string;
+  contract_id: string;
+  payload: Record<string, unknown>;
+  created_at: string;
+  [key: string]: unknown;
+}
+
+export interface WalletTransferOffersResponse {
+  offers: WalletContract[];
+}
+
+export interface WalletPartyAndAmount {
+  party: string;
+  amount: string;
+}
+
+export interface WalletTxLogEntry {
+  event_id: string;
+  transaction_type: "transfer" | "balance_change" | "notification" | "unknown" | string;
+  transaction_subtype?: { template_id?: string; choice?: string; amulet_operation?: string };
+  date?: string;
+  provider?: string;
+  sender?: WalletPartyAndAmount;
+  receivers?: WalletPartyAndAmount[];
+  holding_fees?: string;
+  amulet_price?: string;
+  [key: string]: unknown;
+}
+
+export interface WalletTransactionsResponse {
+  items: WalletTxLogEntry[];
+}
+
+// Traffic purchases show up in the wallet history as AmuletRules_BuyMemberTraffic
+export function isTrafficPurchase(e: WalletTxLogEntry): boolean {
+  return e.transaction_subtype?.choice?.includes("BuyMemberTraffic") ?? false;
+}
+
+/**
+ * Client for the validator app's own API (VALIDATOR_API_URL), covering the wallet
+ * of the party the token belongs to. Requests carry a bearer token from the
+ * TokenProvider; on a 401 a refreshable token is dropped and the request retried once.
+ * Tests can point it at a mock server via `opts.baseUrls` and a StaticTokenProvider.
+ */
+export class ValidatorCollector extends UpstreamClient {
+  constructor(
+    opts: Partial<UpstreamOptions> = {},
+    private readonly tokens: TokenProvider = validatorTokenProvider(),
+    budget: Budget = "api",
+    shared?: SharedState,
+  ) {
+    super(
+      "validator",
+      {
+        baseUrls: [config.validatorApi.baseUrl],
+        timeoutMs: config.validatorApi.timeoutMs,
+        retries: config.lighthouse.retries,
+        retryBaseMs: config.lighthouse.retryBaseMs,
+        retryMaxMs: config.lighthouse.retryMaxMs,
+        breakerThreshold: config.lighthouse.breakerThreshold,
+        breakerCooldownMs: config.lighthouse.breakerCooldownMs,
+        limits: config.lighthouse.limits,
+        ...opts,
+      },
+      budget,
+      shared,
+    );
+  }
+
+  withBudget(budget: Budget): ValidatorCollector {
+    return new ValidatorCollector(this.opts, this.tokens, budget, this.shared);
+  }
+
+  protected async authHeaders(): Promise<Record<string, string>> {
+    const token = await this.tokens.getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  protected async onUnauthorized(): Promise<boolean> {
+    return this.tokens.invalidate();
+  }
+
+  // ── Wallet ───────────────────────────────────────────────────────────────
+
+  async getUserStatus(): Promise<RequestResult<WalletUserStatus>> {
+    return this.get<WalletUserStatus>("/api/validator/v0/wallet/user-status");
+  }
+
+  async getBalance(): Promise<RequestResult<WalletBalance>> {
+    return this.get<WalletBalance>("/api/validator/v0/wallet/balance");
+  }
+
+  async getTransferOffers(): Promise<RequestResult<WalletTransferOffersResponse>> {
+    return this.get<WalletTransferOffersResponse>("/api/validator/v0/wallet/transfer-offers");
+  }
+
+  async getTransactions(params?: {
+    page_size?: number;
+    begin_after_id?: string;
+  }): Promise<RequestResult<WalletTransactionsResponse>> {
+    return this.post<WalletTransactionsResponse>("/api/validator/v0/wallet/transactions", {
+      page_size: params?.page_size ?? 100,
+      ...(params?.begin_after_id ? { begin_after_id: params.begin_after_id } : {}),
+    });
+  }
+
+  /**
+   * Walks the wallet history newest-first. Each page's `nextCursor` is the
+   * event id to continue after; it is absent on the last page.
+   */
+  async *pageTransactions(
+    beginAfterId?: string,
+    pageSize = 100,
+    maxPages = Infinity,
+  ): PageIterator<WalletTxLogEntry> {
+    let cursor = beginAfterId;
+    for (let page = 0; page < maxPages; page++) {
+      const res = await this.getTransactions({ page_size: pageSize, begin_after_id: cursor });
+      if (!res.ok) {
+        yield res;
+        return;
+      }
+      const items = res.data.items ?? [];
+      const last = items[items.length - 1];
+      const data: LighthousePage<WalletTxLogEntry> = {
+        items,
+        cursor,
+        nextCursor: last && items.length >= pageSize ? last.event_id : undefined,
+      };
+      yield { ok: true, data };
+      if (data.nextCursor === undefined) return;
+      cursor = data.nextCursor;
+    }
+  }
+}
+
+// Routes use `validatorApi`; the scheduler uses `validatorApiIngest`
+export const validatorApi = new ValidatorCollector();
+export const validatorApiIngest = validatorApi.withBudget("ingest");
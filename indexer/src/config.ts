@@ -1,5 +1,6 @@
 import { readFileSync } from "fs";
 import { join } from "path";
+import { TAPE_MODES, TapeMode } from "./collectors/tape.js";
 
 function loadEnv(): void {
   try {
@@ -43,6 +44,28 @@ function optionalInt(key: string, fallback: number): number {
   return isNaN(n) ? fallback : n;
 }
 
+function optionalList(key: string): string[] {
+  const val = process.env[key];
+  if (!val) return [];
+  return val
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// A token bucket smaller than one token would never let a request through
+function burstSize(key: string, fallback: number): number {
+  const n = optionalInt(key, fallback);
+  if (n < 1) throw new Error(`Invalid ${key}: ${n}. Must be at least 1`);
+  return n;
+}
+
+function positiveInt(key: string, fallback: number): number {
+  const n = optionalInt(key, fallback);
+  if (n <= 0) throw new Error(`Invalid ${key}: ${n}. Must be a positive number of seconds`);
+  return n;
+}
+
 export type Network = "mainnet" | "testnet" | "devnet";
 
 const LIGHTHOUSE_BASE: Record<Network, string> = {
@@ -51,11 +74,86 @@ const LIGHTHOUSE_BASE: Record<Network, string> = {
   devnet: "https://lighthouse.devnet.cantonloop.com",
 };
 
+const NETWORKS: Network[] = ["mainnet", "testnet", "devnet"];
+
 const network = optional("CANTON_NETWORK", "mainnet") as Network;
-if (!["mainnet", "testnet", "devnet"].includes(network)) {
+if (!NETWORKS.includes(network)) {
   throw new Error(`Invalid CANTON_NETWORK: ${network}. Must be mainnet | testnet | devnet`);
 }
 
+// The default network is always indexed, and always first
+const networks = [network];
+for (const n of optionalList("CANTON_NETWORKS")) {
+  if (!NETWORKS.includes(n as Network)) {
+    throw new Error(`Invalid CANTON_NETWORKS entry: ${n}. Must be mainnet | testnet | devnet`);
+  }
+  if (!networks.includes(n as Network)) networks.push(n as Network);
+}
+
+// Lighthouse mirrors and poll intervals of one network. The plain variables
+// configure the default network; `<NAME>_<NETWORK>` overrides them per network,
+// e.g. LIGHTHOUSE_URL_TESTNET or POLL_STATS_SEC_DEVNET.
+function networkSettings(n: Network) {
+  const suffix = n.toUpperCase();
+  const interval = (key: string, fallback: number) =>
+    positiveInt(`${key}_${suffix}`, positiveInt(key, fallback));
+  const urls =
+    optionalList(`LIGHTHOUSE_URL_${suffix}`).length > 0
+      ? optionalList(`LIGHTHOUSE_URL_${suffix}`)
+      : n === network && optionalList("LIGHTHOUSE_URL").length > 0
+        ? optionalList("LIGHTHOUSE_URL")
+        : [LIGHTHOUSE_BASE[n]];
+  return {
+    lighthouseUrls: urls,
+    polling: {
+      statsAndPrices: interval("POLL_STATS_SEC", 60),
+      validatorsAndRounds: interval("POLL_VALIDATORS_SEC", 300),
+      rewardsAndTransactions: interval("POLL_REWARDS_SEC", 900),
+      governance: interval("POLL_GOVERNANCE_SEC", 1800),
+      fullSnapshot: interval("POLL_SNAPSHOT_SEC", 3600),
+      gaps: interval("POLL_GAPS_SEC", 1800),
+      retention: interval("POLL_RETENTION_SEC", 3600),
+      partitions: interval("POLL_PARTITIONS_SEC", 21600),
+      analytics: interval("POLL_ANALYTICS_SEC", 900),
+    },
+  };
+}
+
+export type NetworkSettings = ReturnType<typeof networkSettings>;
+
+export type PollInterval = keyof NetworkSettings["polling"];
+
+const lighthouseMode = optional("LIGHTHOUSE_MODE", "live") as TapeMode;
+if (!TAPE_MODES.includes(lighthouseMode)) {
+  throw new Error(`Invalid LIGHTHOUSE_MODE: ${lighthouseMode}. Must be live | record | replay`);
+}
+
+const retentionRawDays = optionalInt("RETENTION_RAW_DAYS", 30);
+const retentionHourlyDays = optionalInt("RETENTION_HOURLY_DAYS", 365);
+const retentionDailyDays = optionalInt("RETENTION_DAILY_DAYS", 0);
+const retentionJobRunsDays = optionalInt("RETENTION_JOB_RUNS_DAYS", 30);
+if (retentionRawDays <= 0 || retentionHourlyDays < retentionRawDays) {
+  throw new Error(
+    `Invalid retention: RETENTION_RAW_DAYS (${retentionRawDays}) must be positive and ` +
+      `RETENTION_HOURLY_DAYS (${retentionHourlyDays}) at least as long`,
+  );
+}
+if (retentionDailyDays !== 0 && retentionDailyDays < retentionHourlyDays) {
+  throw new Error(
+    `Invalid RETENTION_DAILY_DAYS: ${retentionDailyDays}. Must be 0 (keep forever) or at least RETENTION_HOURLY_DAYS`,
+  );
+}
+if (retentionJobRunsDays < 0) {
+  throw new Error(
+    `Invalid RETENTION_JOB_RUNS_DAYS: ${retentionJobRunsDays}. Must be 0 (keep forever) or positive`,
+  );
+}
+
+const pollOverlap = optional("POLL_OVERLAP", "skip");
+if (pollOverlap !== "skip" && pollOverlap !== "queue") {
+  throw new Error(`Invalid POLL_OVERLAP: ${pollOverlap}. Must be skip | queue`);
+}
+
 export const config = {
   server: {
     host: optional("HOST", "0.0.0.0"),
@@ -63,14 +161,45 @@ export const config = {
     logLevel: optional("LOG_LEVEL", "info"),
   },
 
+  // Default network: served by routes without a network prefix
   network,
+  // Every network this process polls and serves (CANTON_NETWORKS adds to the default)
+  networks: networks as readonly Network[],
+  // Keyed by the entries of `networks` only
+  perNetwork: Object.fromEntries(networks.map((n) => [n, networkSettings(n)])) as Record<
+    Network,
+    NetworkSettings
+  >,
 
   lighthouse: {
-    baseUrl:
-      process.env["LIGHTHOUSE_URL"] && process.env["LIGHTHOUSE_URL"].trim() !== ""
-        ? process.env["LIGHTHOUSE_URL"]
-        : LIGHTHOUSE_BASE[network],
+    // Comma-separated mirrors in failover order; defaults to the public explorer
+    urls: networkSettings(network).lighthouseUrls,
+    // live | record (live + save every response as a fixture) | replay (fixtures only,
+    // no network). Fixture files are keyed by request, not by mirror.
+    mode: lighthouseMode,
+    fixturesDir: optional("LIGHTHOUSE_FIXTURES_DIR", "fixtures/lighthouse"),
     timeoutMs: optionalInt("LIGHTHOUSE_TIMEOUT_MS", 10_000),
+    // Retries for transient failures (timeouts, 429, 502-504) with jittered backoff
+    retries: optionalInt("LIGHTHOUSE_RETRIES", 3),
+    retryBaseMs: optionalInt("LIGHTHOUSE_RETRY_BASE_MS", 500),
+    retryMaxMs: optionalInt("LIGHTHOUSE_RETRY_MAX_MS", 15_000),
+    // Per-endpoint circuit breaker: open after N consecutive failed requests
+    breakerThreshold: optionalInt("LIGHTHOUSE_BREAKER_THRESHOLD", 5),
+    breakerCooldownMs: optionalInt("LIGHTHOUSE_BREAKER_COOLDOWN_MS", 30_000),
+    // Client-side budgets: requests/sec (token bucket) and max in flight, kept
+    // separate for ingestion (scheduler, backfill) and API `?live=true` traffic
+    limits: {
+      ingest: {
+        ratePerSec: optionalInt("LIGHTHOUSE_INGEST_RPS", 5),
+        burst: burstSize("LIGHTHOUSE_INGEST_BURST", 10),
+        maxInFlight: optionalInt("LIGHTHOUSE_INGEST_CONCURRENCY", 4),
+      },
+      api: {
+        ratePerSec: optionalInt("LIGHTHOUSE_API_RPS", 5),
+        burst: burstSize("LIGHTHOUSE_API_BURST", 10),
+        maxInFlight: optionalInt("LIGHTHOUSE_API_CONCURRENCY", 8),
+      },
+    },
   },
 
   // Optional: local Validator API (JWT-authenticated)
@@ -78,12 +207,33 @@ export const config = {
     enabled: optional("VALIDATOR_API_ENABLED", "false") === "true",
     baseUrl: optional("VALIDATOR_API_URL", "http://localhost:10013"),
     jwtToken: optional("VALIDATOR_JWT_TOKEN", ""),
+    timeoutMs: optionalInt("VALIDATOR_API_TIMEOUT_MS", 10_000),
+    // OAuth2 client-credentials flow; when tokenUrl is set it replaces the static
+    // VALIDATOR_JWT_TOKEN and tokens are refreshed before they expire
+    auth: {
+      tokenUrl: optional("VALIDATOR_AUTH_TOKEN_URL", ""),
+      clientId: optional("VALIDATOR_AUTH_CLIENT_ID", ""),
+      clientSecret: optional("VALIDATOR_AUTH_CLIENT_SECRET", ""),
+      audience: optional("VALIDATOR_AUTH_AUDIENCE", ""),
+      scope: optional("VALIDATOR_AUTH_SCOPE", ""),
+    },
+    // Max wallet-history pages walked per poll
+    maxPages: optionalInt("VALIDATOR_MAX_PAGES", 20),
   },
 
   // Optional: SV Scan API (IP-whitelisted)
   scanApi: {
     enabled: optional("SCAN_API_ENABLED", "false") === "true",
-    baseUrl: optional("SCAN_API_URL", ""),
+    // Including the /api/scan prefix, e.g. https://scan.sv-1.example.com/api/scan.
+    // Comma-separated to fail over between several SVs' Scan instances.
+    urls: optionalList("SCAN_API_URL"),
+    timeoutMs: optionalInt("SCAN_API_TIMEOUT_MS", 10_000),
+    // When enabled, Scan rows overwrite Lighthouse rows and live lookups go to Scan first
+    preferred: optional("SCAN_API_PREFERRED", "true") === "true",
+    // Where the update stream starts on the very first sync (later syncs resume
+    // from their checkpoint). Empty start time = now.
+    updatesMigrationId: optionalInt("SCAN_UPDATES_MIGRATION_ID", 0),
+    updatesStartAt: optional("SCAN_UPDATES_START_AT", ""),
   },
 
   db: {
@@ -95,15 +245,98 @@ export const config = {
     poolMax: optionalInt("DB_POOL_MAX", 10),
     // Full connection string takes priority if provided
     connectionString: optional("DATABASE_URL", ""),
+    // Apply pending migrations before the server listens; turn off to run
+    // `npm run migrate` as a separate deploy step instead
+    migrateOnBoot: optional("MIGRATE_ON_BOOT", "true") === "true",
+    // Advisory lock held while migrating, so replicas booting together take turns
+    migrationLockId: optionalInt("MIGRATION_LOCK_ID", 72_111),
   },
 
   polling: {
-    // seconds
-    statsAndPrices: optionalInt("POLL_STATS_SEC", 60),
-    validatorsAndRounds: optionalInt("POLL_VALIDATORS_SEC", 300),
-    rewardsAndTransactions: optionalInt("POLL_REWARDS_SEC", 900),
-    governance: optionalInt("POLL_GOVERNANCE_SEC", 1800),
-    fullSnapshot: optionalInt("POLL_SNAPSHOT_SEC", 3600),
+    // seconds, any value — jobs run on exact intervals, not cron expressions.
+    // These are the default network's; see `perNetwork` for the others.
+    statsAndPrices: positiveInt("POLL_STATS_SEC", 60),
+    validatorsAndRounds: positiveInt("POLL_VALIDATORS_SEC", 300),
+    rewardsAndTransactions: positiveInt("POLL_REWARDS_SEC", 900),
+    governance: positiveInt("POLL_GOVERNANCE_SEC", 1800),
+    fullSnapshot: positiveInt("POLL_SNAPSHOT_SEC", 3600),
+    gaps: positiveInt("POLL_GAPS_SEC", 1800),
+    retention: positiveInt("POLL_RETENTION_SEC", 3600),
+    partitions: positiveInt("POLL_PARTITIONS_SEC", 21600),
+    analytics: positiveInt("POLL_ANALYTICS_SEC", 900),
+    // Each tick fires up to ±N% of its interval early or late, so jobs sharing an
+    // interval do not all hit the upstream in the same second
+    jitterPct: Math.min(Math.max(optionalInt("POLL_JITTER_PCT", 10), 0), 50),
+    // A tick that finds the same job still running: skip it, or queue one more run
+    overlap: pollOverlap as "skip" | "queue",
+    // A run is aborted, fetches included, after this many seconds; 0 = the job's interval
+    jobTimeoutSec: optionalInt("POLL_JOB_TIMEOUT_SEC", 0),
+    // Upper bound on pages walked per list poll — a fresh database would
+    // otherwise page through the whole upstream history on the first tick
+    maxPages: optionalInt("POLL_MAX_PAGES", 20),
+  },
+
+  rewards: {
+    // Every known validator is tracked; REWARDS_PARTIES adds extra party IDs
+    trackValidators: optional("REWARDS_TRACK_VALIDATORS", "true") === "true",
+    parties: optionalList("REWARDS_PARTIES"),
+    // Reward history is walked deeper than other streams on a party's first sync
+    maxPages: optionalInt("REWARDS_MAX_PAGES", 100),
+  },
+
+  gaps: {
+    // Missing rounds refetched per run, newest first
+    maxRepairs: optionalInt("GAP_REPAIR_MAX", 100),
+    // After this many failed refetches a round is only reported, no longer retried
+    maxAttempts: optionalInt("GAP_REPAIR_ATTEMPTS", 3),
+  },
+
+  retention: {
+    // Snapshot tables (validator uptime, prices, stats, governance stats) keep
+    // every row this long, then hourly and later daily resolution
+    enabled: optional("RETENTION_ENABLED", "true") === "true",
+    rawDays: retentionRawDays,
+    hourlyDays: retentionHourlyDays,
+    // Daily rollups older than this are deleted; 0 = kept forever
+    dailyDays: retentionDailyDays,
+    // job_runs history older than this is deleted; 0 = kept forever
+    jobRunsDays: retentionJobRunsDays,
+  },
+
+  partitions: {
+    // transactions, transfers and validator_snapshots are partitioned by month;
+    // the maintenance job keeps this many months ahead of the current one
+    monthsAhead: optionalInt("PARTITION_MONTHS_AHEAD", 3),
+  },
+
+  backfill: {
+    pageSize: optionalInt("BACKFILL_PAGE_SIZE", 100),
+    // Pause between page requests so a long backfill stays polite to Lighthouse
+    pageDelayMs: optionalInt("BACKFILL_PAGE_DELAY_MS", 500),
+  },
+
+  leader: {
+    // Only the replica holding the advisory lock runs the scheduler; disable for
+    // a single replica that should always poll
+    election: optional("LEADER_ELECTION_ENABLED", "true") === "true",
+    lockId: optionalInt("LEADER_LOCK_ID", 72_110),
+    // How often a follower tries to take over and the leader checks its lock
+    checkIntervalMs: optionalInt("LEADER_CHECK_INTERVAL_MS", 10_000),
+    // Shown in /health; defaults to hostname:pid
+    instanceId: optional("INSTANCE_ID", ""),
+  },
+
+  shutdown: {
+    // After SIGTERM /ready fails at once; requests are still served this long so
+    // load balancers can stop routing here before the listener closes
+    readyDelayMs: optionalInt("SHUTDOWN_READY_DELAY_MS", 0),
+    // How long running jobs get to finish before they are aborted
+    graceMs: optionalInt("SHUTDOWN_GRACE_MS", 25_000),
+  },
+
+  admin: {
+    // Bearer token for /api/admin/* — admin routes are disabled when empty
+    token: optional("ADMIN_TOKEN", ""),
   },
 
   cache: {
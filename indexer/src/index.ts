@@ -1,10 +1,12 @@
 import { startServer } from './api/server.js';
-import { startScheduler } from './scheduler.js';
+import { config } from './config.js';
+import { startLeaderElection } from './leader.js';
 import { checkConnection } from './storage/db.js';
+import { applyMigrations } from './storage/migrate.js';
 
 async function main(): Promise<void> {
   console.log('[main] Canton Network Indexer starting...');
-  console.log(`[main] network: ${process.env['CANTON_NETWORK'] ?? 'mainnet'}`);
+  console.log(`[main] networks: ${config.networks.join(', ')} (default ${config.network})`);
 
   // Wait for DB to be ready (retry up to 30s)
   let dbReady = false;
@@ -22,7 +24,13 @@ async function main(): Promise<void> {
 
   console.log('[main] database connected');
 
-  startScheduler();
+  // Before anything can write: the scheduler starts polling as soon as it leads
+  if (config.db.migrateOnBoot) {
+    const applied = await applyMigrations();
+    console.log(`[db] schema up to date${applied.length ? `, applied ${applied.join(', ')}` : ''}`);
+  }
+
+  startLeaderElection();
   await startServer();
 }
 
@@ -0,0 +1,166 @@
+import { hostname } from "os";
+import { PoolClient } from "pg";
+import { config, Network } from "./config.js";
+import { startScheduler, stopScheduler } from "./scheduler.js";
+import { pool, queryOne } from "./storage/db.js";
+
+// Every replica serves the API, but only one per network runs the scheduler: the
+// one holding a session-level Postgres advisory lock on a dedicated connection.
+// The lock goes away with that connection, so a crashed or partitioned leader is
+// replaced by whichever replica tries next.
+
+export const instanceId = config.leader.instanceId || `${hostname()}:${process.pid}`;
+
+// Two-key form: (LEADER_LOCK_ID, hashtext(network)), so networks sharing a
+// database elect separately
+const LOCK_SQL = `SELECT pg_try_advisory_lock($1, hashtext($2)) AS locked`;
+
+export interface LeaderState {
+  election: boolean;
+  instance: string;
+  is_leader: boolean;
+  leader_since: string | null;
+  // Whoever holds the lock right now, as seen by Postgres
+  leader: { instance: string; pid: number } | null;
+}
+
+// One lock, on its own connection, per indexed network
+interface Seat {
+  lockClient: PoolClient | null;
+  leaderSince: Date | null;
+}
+
+const seats = new Map<Network, Seat>(
+  config.networks.map((n) => [n, { lockClient: null, leaderSince: null }]),
+);
+let timer: NodeJS.Timeout | null = null;
+let checking = false;
+// Set once shutdown begins: no lock is taken after that
+let stopping = false;
+
+function resign(network: Network, reason: string): void {
+  const seat = seats.get(network)!;
+  if (!seat.lockClient) return;
+  console.warn(`[leader] ${instanceId} lost leadership of ${network}: ${reason}`);
+  stopScheduler(network);
+  // Releasing with an error destroys the connection, which drops the lock even
+  // if the server still thinks the session is alive
+  seat.lockClient.release(new Error(reason));
+  seat.lockClient = null;
+  seat.leaderSince = null;
+}
+
+async function tryAcquire(network: Network): Promise<void> {
+  const client = await pool.connect();
+  let locked = false;
+  try {
+    await client.query(`SELECT set_config('application_name', $1, false)`, [instanceId]);
+    const res = await client.query<{ locked: boolean }>(LOCK_SQL, [config.leader.lockId, network]);
+    locked = res.rows[0]?.locked === true;
+  } catch (err) {
+    client.release(err instanceof Error ? err : new Error(String(err)));
+    throw err;
+  }
+  if (!locked) {
+    client.release();
+    return;
+  }
+  if (stopping) {
+    client.release(new Error("shutting down"));
+    return;
+  }
+
+  const seat = seats.get(network)!;
+  client.on("error", (err) => resign(network, `lock connection error: ${err.message}`));
+  seat.lockClient = client;
+  seat.leaderSince = new Date();
+  console.log(`[leader] ${instanceId} is now the scheduler leader for ${network}`);
+  startScheduler(network);
+}
+
+async function check(): Promise<void> {
+  if (checking || stopping) return;
+  checking = true;
+  try {
+    for (const [network, seat] of seats) {
+      try {
+        if (seat.lockClient) {
+          await seat.lockClient.query("SELECT 1");
+        } else {
+          await tryAcquire(network);
+        }
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        if (seat.lockClient) resign(network, msg);
+        else console.warn(`[leader] election attempt for ${network} failed: ${msg}`);
+      }
+    }
+  } finally {
+    checking = false;
+  }
+}
+
+/**
+ * Starts each network's scheduler on whichever replica wins that network's
+ * advisory lock, and keeps trying on the others so one of them takes over when
+ * the leader goes away. With LEADER_ELECTION_ENABLED=false every scheduler
+ * simply starts here.
+ */
+export function startLeaderElection(): void {
+  if (!config.leader.election) {
+    for (const [network, seat] of seats) {
+      seat.leaderSince = new Date();
+      startScheduler(network);
+    }
+    return;
+  }
+  if (timer) return;
+  void check();
+  timer = setInterval(() => void check(), config.leader.checkIntervalMs);
+}
+
+// First step of shutdown: stop competing for leadership; locks already held stay
+export function stopLeaderElection(): void {
+  stopping = true;
+  if (timer) clearInterval(timer);
+  timer = null;
+}
+
+/**
+ * Gives up every lock held, so another replica takes over right away instead of
+ * after the connection times out. Call once the scheduler has drained — a new
+ * leader must not start while a run here is still writing.
+ */
+export function releaseLeadership(): void {
+  for (const [network, seat] of seats) {
+    if (!seat.lockClient) continue;
+    seat.lockClient.release(new Error("shutting down"));
+    seat.lockClient = null;
+    seat.leaderSince = null;
+    console.log(`[leader] ${instanceId} released leadership of ${network}`);
+  }
+}
+
+export async function leaderState(network: Network = config.network): Promise<LeaderState> {
+  const seat = seats.get(network)!;
+  const base = {
+    election: config.leader.election,
+    instance: instanceId,
+    is_leader: config.leader.election ? seat.lockClient !== null : true,
+    leader_since: seat.leaderSince?.toISOString() ?? null,
+  };
+  // Without election every replica runs its own scheduler
+  if (!config.leader.election) return { ...base, leader: null };
+  const row = await queryOne<{ instance: string; pid: number }>(
+    `SELECT a.application_name AS instance, a.pid
+     FROM pg_locks l
+     JOIN pg_stat_activity a ON a.pid = l.pid
+     WHERE l.locktype = 'advisory' AND l.granted
+       AND l.database = (SELECT oid FROM pg_database WHERE datname = current_database())
+       AND l.classid = $1::INTEGER::OID
+       AND l.objid = hashtext($2)::OID
+       AND l.objsubid = 2`,
+    [config.leader.lockId, network],
+  );
+  return { ...base, leader: row };
+}
@@ -0,0 +1,68 @@
+import { FastifyInstance } from "fastify";
+import { stopBackfill } from "./api/routes/admin.js";
+import { config } from "./config.js";
+import { releaseLeadership, stopLeaderElection } from "./leader.js";
+import { drainScheduler } from "./scheduler.js";
+import { pool } from "./storage/db.js";
+
+// Shutdown order matters: readiness goes red first, then the listener closes
+// while the scheduler drains and an admin backfill stops, and only then are
+// leader locks and the pool let go — so no batch is cut off mid-write and no
+// new leader overlaps with it.
+
+// Beyond the drain, closing the server and the pool must not hang forever
+const EXIT_MARGIN_MS = 10_000;
+
+let shuttingDown = false;
+
+export function isShuttingDown(): boolean {
+  return shuttingDown;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function shutdown(server: FastifyInstance, signal: string): Promise<void> {
+  shuttingDown = true;
+  console.log(`[lifecycle] ${signal} received, shutting down`);
+  const deadline = setTimeout(
+    () => {
+      console.error("[lifecycle] shutdown took too long, exiting");
+      process.exit(1);
+    },
+    config.shutdown.readyDelayMs + config.shutdown.graceMs + EXIT_MARGIN_MS,
+  );
+  deadline.unref();
+
+  stopLeaderElection();
+  if (config.shutdown.readyDelayMs > 0) await sleep(config.shutdown.readyDelayMs);
+
+  // server.close() stops accepting connections and waits for requests in flight
+  await Promise.all([
+    server.close().then(() => console.log("[lifecycle] server closed")),
+    drainScheduler(config.shutdown.graceMs).then(() => console.log("[lifecycle] jobs drained")),
+    stopBackfill().then(() => console.log("[lifecycle] backfill stopped")),
+  ]);
+  releaseLeadership();
+  await pool.end();
+  console.log("[lifecycle] database pool closed");
+  process.exit(0);
+}
+
+/**
+ * Wires SIGTERM and SIGINT to a graceful shutdown. A second signal while
+ * shutting down exits immediately.
+ */
+export function handleShutdownSignals(server: FastifyInstance): void {
+  const onSignal = (signal: string) => {
+    if (shuttingDown) {
+      console.warn(`[lifecycle] ${signal} received again, exiting now`);
+      process.exit(1);
+    }
+    shutdown(server, signal).catch((err) => {
+      console.error("[lifecycle] shutdown failed", err);
+      process.exit(1);
+    });
+  };
+  process.on("SIGTERM", () => onSignal("SIGTERM"));
+  process.on("SIGINT", () => onSignal("SIGINT"));
+}
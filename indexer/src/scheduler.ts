@@ -1,311 +1,1115 @@
-import cron from "node-cron";
-import { config } from "./config.js";
-import { lighthouse } from "./collectors/lighthouse.js";
-import { query } from "./storage/db.js";
-
-function secToCron(seconds: number): string {
-  if (seconds < 60) return `*/${seconds} * * * * *`;
-  const minutes = Math.round(seconds / 60);
-  if (minutes < 60) return `*/${minutes} * * * *`;
-  const hours = Math.round(minutes / 60);
-  return `0 */${hours} * * *`;
-}
-
-const network = config.network;
+import { config, Network, PollInterval } from "./config.js";
+import { ABORTED_STATUS, withSignal } from "./collectors/http.js";
+import { lighthouseFor, PageIterator } from "./collectors/lighthouse.js";
+import {
+  decodeUpdatesCursor,
+  encodeUpdatesCursor,
+  ScanContract,
+  scanIngest,
+} from "./collectors/scan.js";
+import { validatorApiIngest } from "./collectors/validator.js";
+import { query, Queryable, queryRows, withTransaction } from "./storage/db.js";
+import { getCheckpoint, saveCheckpoint } from "./storage/checkpoints.js";
+import {
+  clearRoundGap,
+  findMissingRounds,
+  linkTransactionRounds,
+  recordRoundGap,
+  refreshTransactionGaps,
+} from "./storage/gaps.js";
+import { finishJobRun, JobOutcome, listPausedJobs, startJobRun } from "./storage/jobs.js";
+import { applyRetention } from "./storage/retention.js";
+import { maintainPartitions } from "./storage/partitions.js";
+import { refreshDailyAggregates } from "./storage/aggregates.js";
+import {
+  archiveUnlistedContracts,
+  insertRewards,
+  insertRounds,
+  insertSelfBalance,
+  insertSelfTransactions,
+  insertTransactions,
+  insertTransfers,
+  syncSelfTransferOffers,
+  upsertCnsRecords,
+  upsertContracts,
+  upsertFeaturedApps,
+  upsertGovernanceVotes,
+  upsertPreapprovals,
+  upsertScanAnsEntries,
+  upsertScanContracts,
+  upsertScanRounds,
+  upsertScanTransactions,
+  upsertUpstreamTxCounts,
+  upsertValidators,
+} from "./storage/ingest.js";
 
 // ── Pollers ───────────────────────────────────────────────────────────────────
 
-async function pollStats(): Promise<void> {
-  const res = await lighthouse.getStats();
+async function pollStats(network: Network): Promise<JobOutcome> {
+  const res = await lighthouseFor(network, "ingest").getStats();
   if (!res.ok) {
-    console.warn(`[scheduler] stats failed: ${res.error}`);
-    return;
+    console.warn(`[scheduler] ${network} stats failed: ${res.error}`);
+    return { fetched: 0, inserted: 0, upstreamStatus: res.status, error: res.error };
   }
   const d = res.data;
   const ccPrice = d.cc_price ? parseFloat(d.cc_price) : null;
 
-  await query(
-    `INSERT INTO stats_snapshots (network, version, total_validators, total_rounds, cc_price, raw)
-     VALUES ($1, $2, $3, $4, $5, $6)`,
-    [
-      network,
-      null, // stats response has no version field — version comes from validator.version
-      d.total_validator ?? null,
-      null, // no total_rounds in stats — rounds are tracked separately
-      ccPrice,
-      JSON.stringify(d),
-    ],
+  await withTransaction(async (db) => {
+    await db.query(
+      `INSERT INTO stats_snapshots (network, version, total_validators, total_rounds, cc_price, raw)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        network,
+        null, // stats response has no version field — version comes from validator.version
+        d.total_validator ?? null,
+        null, // no total_rounds in stats — rounds are tracked separately
+        ccPrice,
+        JSON.stringify(d),
+      ],
+    );
+
+    // Persist price to prices table for history tracking
+    if (ccPrice !== null && !isNaN(ccPrice)) {
+      await db.query(`INSERT INTO prices (network, price_usd, raw) VALUES ($1, $2, $3)`, [
+        network,
+        ccPrice,
+        JSON.stringify({ cc_price: d.cc_price, captured_from: "stats" }),
+      ]);
+    }
+
+    await upsertUpstreamTxCounts(db, network, d.history_tx_14d);
+  });
+
+  console.log(
+    `[scheduler] ${network} stats snapshot saved (cc_price=${d.cc_price}, validators=${d.total_validator})`,
+  );
+  return { fetched: 1, inserted: 1, upstreamStatus: 200 };
+}
+
+// Every page, each with its uptime snapshots; inserted = validators seen for the first time
+async function pollValidators(network: Network): Promise<JobOutcome> {
+  return syncPages(
+    network,
+    "validators",
+    lighthouseFor(network, "ingest").pageValidators({ page_size: "200" }, config.polling.maxPages),
+    (db, validators) => upsertValidators(db, network, validators),
+  );
+}
+
+// ── Checkpointed streams ──────────────────────────────────────────────────────
+
+interface SyncStream<T> {
+  job: string;
+  pages: (cursor?: string) => PageIterator<T>;
+  // Monotonically increasing upstream key; pages arrive newest-first
+  seq: (item: T) => number | null;
+  round: (item: T) => number | null | undefined;
+  // Writes one page's rows; resolves how many were new
+  store: (db: Queryable, items: T[]) => Promise<number>;
+}
+
+interface WalkResult {
+  fetched: number;
+  inserted: number;
+  pages: number;
+  headSeq: number | null;
+  headRound: number | null;
+  // True once the walk reached `stopAt` or the end of upstream history
+  done: boolean;
+  resumeFrom?: string;
+  error?: string;
+  upstreamStatus: number | null;
+}
+
+async function walk<T>(
+  stream: SyncStream<T>,
+  cursor: string | undefined,
+  stopAt: number | null,
+): Promise<WalkResult> {
+  const res: WalkResult = {
+    fetched: 0,
+    inserted: 0,
+    pages: 0,
+    headSeq: null,
+    headRound: null,
+    done: false,
+    resumeFrom: cursor,
+    upstreamStatus: null,
+  };
+  for await (const page of stream.pages(cursor)) {
+    if (!page.ok) return { ...res, error: page.error, upstreamStatus: page.status };
+    res.upstreamStatus = 200;
+    res.pages++;
+    const batch: T[] = [];
+    let reachedStop = false;
+    for (const item of page.data.items) {
+      const seq = stream.seq(item);
+      if (seq === null) continue;
+      if (stopAt !== null && seq <= stopAt) {
+        reachedStop = true;
+        break;
+      }
+      if (res.headSeq === null) {
+        res.headSeq = seq;
+        res.headRound = stream.round(item) ?? null;
+      }
+      batch.push(item);
+    }
+    // One transaction per page: a failed write leaves the page out entirely
+    if (batch.length > 0) {
+      res.inserted += await withTransaction((db) => stream.store(db, batch));
+      res.fetched += batch.length;
+    }
+    if (reachedStop) return { ...res, done: true, resumeFrom: undefined };
+    res.resumeFrom = page.data.nextCursor;
+  }
+  // Iterator ended without a next cursor: end of history. Otherwise maxPages ran out.
+  return { ...res, done: res.resumeFrom === undefined };
+}
+
+/**
+ * Incrementally syncs a stream against its checkpoint. An interrupted walk
+ * (upstream error, or more new rows than POLL_MAX_PAGES covers) leaves a resume
+ * cursor behind; the next run closes that gap before walking from the head again,
+ * so nothing between the checkpoint and the head is ever skipped.
+ *
+ * The very first sync only records the head it reached — history older than the
+ * first walk is left to the backfill.
+ */
+async function syncStream<T>(network: Network, stream: SyncStream<T>): Promise<WalkResult> {
+  const cp = await getCheckpoint(stream.job, network);
+  const total = { fetched: 0, inserted: 0, pages: 0 };
+
+  if (cp.resumeCursor) {
+    const gap = await walk(stream, cp.resumeCursor, cp.lastSeq);
+    total.fetched += gap.fetched;
+    total.inserted += gap.inserted;
+    total.pages += gap.pages;
+    if (!gap.done) {
+      cp.resumeCursor = gap.resumeFrom ?? cp.resumeCursor;
+      await saveCheckpoint(cp);
+      return { ...gap, ...total };
+    }
+    cp.lastSeq = cp.pendingSeq;
+    cp.resumeCursor = null;
+    cp.pendingSeq = null;
+  }
+
+  const head = await walk(stream, undefined, cp.lastSeq);
+  total.fetched += head.fetched;
+  total.inserted += head.inserted;
+  total.pages += head.pages;
+
+  if (head.headSeq !== null) cp.lastRound = head.headRound ?? cp.lastRound;
+  if (head.done || cp.lastSeq === null) {
+    cp.lastSeq = head.headSeq ?? cp.lastSeq;
+  } else if (head.headSeq !== null) {
+    cp.resumeCursor = head.resumeFrom ?? null;
+    cp.pendingSeq = head.headSeq;
+  }
+  if (!head.error) cp.lastSyncedAt = new Date().toISOString();
+  await saveCheckpoint(cp);
+
+  return { ...head, ...total };
+}
+
+function logSync(network: Network, job: string, res: WalkResult): JobOutcome {
+  if (res.error)
+    console.warn(`[scheduler] ${network} ${job} failed after ${res.pages} pages: ${res.error}`);
+  console.log(
+    `[scheduler] ${network} ${job}: ${res.fetched} fetched over ${res.pages} pages, ${res.inserted} new` +
+      (res.done ? "" : " (behind, will resume)"),
   );
+  return {
+    fetched: res.fetched,
+    inserted: res.inserted,
+    upstreamStatus: res.upstreamStatus,
+    error: res.error,
+  };
+}
 
-  // Persist price to prices table for history tracking
-  if (ccPrice !== null && !isNaN(ccPrice)) {
-    await query(`INSERT INTO prices (network, price_usd, raw) VALUES ($1, $2, $3)`, [
+// One outcome for a job made of several independent fetches
+function mergeOutcomes(outcomes: JobOutcome[]): JobOutcome {
+  const failed = outcomes.filter((o) => o.error);
+  const statuses = outcomes.map((o) => o.upstreamStatus).filter((s) => s !== null);
+  return {
+    fetched: outcomes.reduce((n, o) => n + o.fetched, 0),
+    inserted: outcomes.reduce((n, o) => n + o.inserted, 0),
+    upstreamStatus: failed[0]?.upstreamStatus ?? statuses[0] ?? null,
+    error: failed.length ? failed.map((o) => o.error).join("; ") : undefined,
+  };
+}
+
+// For the plain paged pollers: stop at the first failed page and report it
+function pageOutcome(
+  fetched: number,
+  inserted: number,
+  failure: { status: number; error: string } | null,
+): JobOutcome {
+  return failure
+    ? { fetched, inserted, upstreamStatus: failure.status, error: failure.error }
+    : { fetched, inserted, upstreamStatus: 200 };
+}
+
+async function pollRounds(network: Network): Promise<JobOutcome> {
+  const res = await syncStream(network, {
+    job: "rounds",
+    pages: (cursor) =>
+      lighthouseFor(network, "ingest").pageRounds(
+        { page_size: "50", cursor },
+        config.polling.maxPages,
+      ),
+    seq: (r) => r.round || null,
+    round: (r) => r.round,
+    store: (db, rounds) => insertRounds(db, network, rounds),
+  });
+  return logSync(network, "rounds", res);
+}
+
+async function pollTransactions(network: Network): Promise<JobOutcome> {
+  const res = await syncStream(network, {
+    job: "transactions",
+    pages: (cursor) =>
+      lighthouseFor(network, "ingest").pageTransactions(
+        { page_size: "100", cursor },
+        config.polling.maxPages,
+      ),
+    seq: (tx) => tx.id ?? null,
+    round: (tx) => tx.round,
+    store: (db, txs) => insertTransactions(db, network, txs),
+  });
+  return logSync(network, "transactions", res);
+}
+
+async function pollTransfers(network: Network): Promise<JobOutcome> {
+  const res = await syncStream(network, {
+    job: "transfers",
+    pages: (cursor) =>
+      lighthouseFor(network, "ingest").pageTransfers(
+        { page_size: "100", cursor },
+        config.polling.maxPages,
+      ),
+    seq: (t) => t.id ?? null,
+    round: (t) => t.round,
+    store: (db, transfers) => insertTransfers(db, network, transfers),
+  });
+  return logSync(network, "transfers", res);
+}
+
+async function rewardParties(network: Network): Promise<string[]> {
+  const parties = new Set(config.rewards.parties);
+  if (config.rewards.trackValidators) {
+    // Validator ids are their party ids on Lighthouse
+    const rows = await queryRows<{ id: string }>(`SELECT id FROM validators WHERE network = $1`, [
       network,
-      ccPrice,
-      JSON.stringify({ cc_price: d.cc_price, captured_from: "stats" }),
     ]);
+    for (const r of rows) parties.add(r.id);
   }
+  return [...parties];
+}
 
+async function pollRewards(network: Network): Promise<JobOutcome> {
+  const parties = await rewardParties(network);
+  let fetched = 0;
+  let inserted = 0;
+  let failed = 0;
+  let upstreamStatus: number | null = null;
+  let lastError: string | undefined;
+  // Sequential on purpose — one party at a time keeps the request rate flat
+  for (const partyId of parties) {
+    const res = await syncStream(network, {
+      job: `rewards:${partyId}`,
+      pages: (cursor) =>
+        lighthouseFor(network, "ingest").pagePartyRewards(
+          partyId,
+          { page_size: "100", cursor },
+          config.rewards.maxPages,
+        ),
+      seq: (r) => r.id ?? null,
+      round: (r) => r.round,
+      store: (db, rewards) => insertRewards(db, network, partyId, rewards),
+    });
+    fetched += res.fetched;
+    inserted += res.inserted;
+    upstreamStatus = res.upstreamStatus ?? upstreamStatus;
+    if (res.error) {
+      failed++;
+      lastError = `${partyId}: ${res.error}`;
+      console.warn(`[scheduler] ${network} rewards for ${partyId} failed: ${res.error}`);
+    }
+  }
   console.log(
-    `[scheduler] stats snapshot saved (cc_price=${d.cc_price}, validators=${d.total_validator})`,
+    `[scheduler] ${network} rewards: ${parties.length} parties, ${fetched} fetched, ${inserted} new` +
+      (failed ? `, ${failed} failed` : ""),
   );
+  return {
+    fetched,
+    inserted,
+    upstreamStatus,
+    error: failed ? `${failed} of ${parties.length} parties failed, last: ${lastError}` : undefined,
+  };
 }
 
-async function pollValidators(): Promise<void> {
-  const res = await lighthouse.getValidators({ page_size: "200" });
+async function pollGovernanceStats(network: Network): Promise<JobOutcome> {
+  const res = await lighthouseFor(network, "ingest").getGovernanceStats();
   if (!res.ok) {
-    console.warn(`[scheduler] validators failed: ${res.error}`);
-    return;
-  }
-
-  const validators = res.data.validators ?? [];
-  for (const v of validators) {
-    if (!v.id) continue;
-    await query(
-      `INSERT INTO validators (id, network, name, party_id, is_active, version, last_seen_at, raw)
-       VALUES ($1, $2, $3, $4, $5, $6, NOW(), $7)
-       ON CONFLICT (id) DO UPDATE SET
-         is_active    = EXCLUDED.is_active,
-         version      = EXCLUDED.version,
-         last_seen_at = NOW(),
-         raw          = EXCLUDED.raw`,
-      [
-        v.id,
-        network,
-        null,
-        null,
-        v.last_active_at ? true : false,
-        v.version ?? null,
-        JSON.stringify(v),
-      ],
-    );
-    await query(
-      `INSERT INTO validator_snapshots (validator_id, network, is_active, raw)
-       VALUES ($1, $2, $3, $4)`,
-      [v.id, network, v.last_active_at ? true : false, JSON.stringify(v)],
-    );
+    console.warn(`[scheduler] ${network} governance stats failed: ${res.error}`);
+    return pageOutcome(0, 0, res);
   }
-  console.log(`[scheduler] validators upserted: ${validators.length}`);
+  await query(`INSERT INTO governance_stats_snapshots (network, raw) VALUES ($1, $2)`, [
+    network,
+    JSON.stringify(res.data),
+  ]);
+  return pageOutcome(1, 1, null);
 }
 
-async function pollRounds(): Promise<void> {
-  const res = await lighthouse.getRounds({ page_size: "50" });
-  if (!res.ok) {
-    console.warn(`[scheduler] rounds failed: ${res.error}`);
-    return;
-  }
-  const rounds = res.data.rounds ?? [];
+async function pollGovernance(network: Network): Promise<JobOutcome> {
+  const outcomes = await Promise.all([
+    syncPages(
+      network,
+      "governance votes",
+      lighthouseFor(network, "ingest").pageGovernanceVotes(
+        { page_size: "100" },
+        config.polling.maxPages,
+      ),
+      (db, votes) => upsertGovernanceVotes(db, network, votes),
+    ),
+    pollGovernanceStats(network),
+  ]);
+  return mergeOutcomes(outcomes);
+}
+
+/**
+ * Walks a paged list and writes each page in its own transaction. Stops at the
+ * first failed page; pages already written stay written.
+ */
+async function syncPages<T>(
+  network: Network,
+  label: string,
+  pages: PageIterator<T>,
+  store: (db: Queryable, items: T[]) => Promise<number>,
+): Promise<JobOutcome> {
+  let fetched = 0;
   let inserted = 0;
-  for (const r of rounds) {
-    if (!r.round) continue;
-    const result = await query(
-      `INSERT INTO rounds (round, network, created_at, raw)
-       VALUES ($1, $2, $3, $4)
-       ON CONFLICT (round, network) DO NOTHING`,
-      [r.round, network, r.open_at ?? null, JSON.stringify(r)],
-    );
-    inserted += result.rowCount ?? 0;
+  let failure: { status: number; error: string } | null = null;
+  for await (const page of pages) {
+    if (!page.ok) {
+      console.warn(`[scheduler] ${network} ${label} failed: ${page.error}`);
+      failure = page;
+      break;
+    }
+    const items = page.data.items;
+    if (items.length === 0) continue;
+    inserted += await withTransaction((db) => store(db, items));
+    fetched += items.length;
   }
-  console.log(`[scheduler] rounds: ${rounds.length} fetched, ${inserted} new`);
+  if (fetched > 0)
+    console.log(`[scheduler] ${network} ${label}: ${fetched} upserted, ${inserted} new`);
+  return pageOutcome(fetched, inserted, failure);
 }
 
-async function pollTransactions(): Promise<void> {
-  const res = await lighthouse.getTransactions({ page_size: "100" });
+async function pollCns(network: Network): Promise<JobOutcome> {
+  return syncPages(
+    network,
+    "cns",
+    lighthouseFor(network, "ingest").pageCnsRecords({ page_size: "100" }, config.polling.maxPages),
+    (db, records) => upsertCnsRecords(db, network, records),
+  );
+}
+
+async function pollFeaturedApps(network: Network): Promise<JobOutcome> {
+  const res = await lighthouseFor(network, "ingest").getFeaturedApps();
   if (!res.ok) {
-    console.warn(`[scheduler] transactions failed: ${res.error}`);
-    return;
+    console.warn(`[scheduler] ${network} featured-apps failed: ${res.error}`);
+    return { fetched: 0, inserted: 0, upstreamStatus: res.status, error: res.error };
+  }
+  const apps = res.data.apps ?? [];
+  const inserted = await withTransaction((db) => upsertFeaturedApps(db, network, apps));
+  if (apps.length > 0) {
+    console.log(`[scheduler] ${network} featured apps: ${apps.length} upserted, ${inserted} new`);
   }
-  const txs = res.data.transactions ?? [];
+  return { fetched: apps.length, inserted, upstreamStatus: 200 };
+}
+
+async function pollPreapprovals(network: Network): Promise<JobOutcome> {
+  return syncPages(
+    network,
+    "preapprovals",
+    lighthouseFor(network, "ingest").pagePreapprovals(
+      { page_size: "100" },
+      config.polling.maxPages,
+    ),
+    (db, preapprovals) => upsertPreapprovals(db, network, preapprovals),
+  );
+}
+
+/**
+ * Lighthouse lists only active contracts and has no sequence to stop at, so the
+ * whole list is walked, POLL_MAX_PAGES per run: the cursor is checkpointed and
+ * the next run carries on from it. Once a walk reaches the end, contracts it
+ * did not list are marked archived and the next walk starts from the head.
+ */
+async function pollContracts(network: Network): Promise<JobOutcome> {
+  const cp = await getCheckpoint("contracts", network);
+  const pages = lighthouseFor(network, "ingest").pageContracts(
+    { page_size: "100", cursor: cp.resumeCursor ?? undefined },
+    config.polling.maxPages,
+  );
+  let fetched = 0;
   let inserted = 0;
-  for (const tx of txs) {
-    if (!tx.update_id) continue;
-    const result = await query(
-      `INSERT INTO transactions (update_id, network, created_at, raw)
-       VALUES ($1, $2, $3, $4)
-       ON CONFLICT (update_id, network) DO NOTHING`,
-      [tx.update_id, network, tx.record_time ?? null, JSON.stringify(tx)],
+  let failure: { status: number; error: string } | null = null;
+  let cursor = cp.resumeCursor ?? undefined;
+  let complete = false;
+  for await (const page of pages) {
+    if (!page.ok) {
+      console.warn(`[scheduler] ${network} contracts failed: ${page.error}`);
+      failure = page;
+      break;
+    }
+    const items = page.data.items;
+    if (items.length > 0) {
+      inserted += await withTransaction((db) => upsertContracts(db, network, items));
+      fetched += items.length;
+    }
+    cursor = page.data.nextCursor;
+    complete = cursor === undefined;
+  }
+
+  let archived = 0;
+  if (complete) {
+    if (cp.lastSyncedAt) {
+      const seenBefore = cp.lastSyncedAt;
+      archived = await withTransaction((db) => archiveUnlistedContracts(db, network, seenBefore));
+    }
+    cp.resumeCursor = null;
+    cp.lastSyncedAt = new Date().toISOString();
+  } else {
+    cp.resumeCursor = cursor ?? null;
+  }
+  await saveCheckpoint(cp);
+
+  console.log(
+    `[scheduler] ${network} contracts: ${fetched} upserted, ${inserted} new` +
+      (complete ? `, ${archived} archived` : " (walk continues next run)"),
+  );
+  return pageOutcome(fetched, inserted, failure);
+}
+
+// ── Scan (only when SCAN_API_ENABLED) ─────────────────────────────────────────
+
+async function pollScanDso(network: Network): Promise<JobOutcome> {
+  const [dsoRes, rulesRes] = await Promise.all([
+    scanIngest.getDsoInfo(),
+    scanIngest.getAmuletRules(),
+  ]);
+  const contracts: ScanContract[] = [];
+  if (dsoRes.ok) {
+    const d = dsoRes.data;
+    contracts.push(d.dso_rules.contract, d.amulet_rules.contract, d.latest_mining_round.contract);
+    for (const sv of d.sv_node_states ?? []) contracts.push(sv.contract);
+  } else {
+    console.warn(`[scheduler] ${network} scan dso failed: ${dsoRes.error}`);
+  }
+  if (rulesRes.ok) {
+    contracts.push(rulesRes.data.amulet_rules_update.contract);
+  } else {
+    console.warn(`[scheduler] ${network} scan amulet-rules failed: ${rulesRes.error}`);
+  }
+  const inserted = await withTransaction((db) => upsertScanContracts(db, network, contracts));
+  if (contracts.length > 0) {
+    console.log(
+      `[scheduler] ${network} scan contracts: ${contracts.length} upserted, ${inserted} new`,
     );
-    inserted += result.rowCount ?? 0;
   }
-  console.log(`[scheduler] transactions: ${txs.length} fetched, ${inserted} new`);
+  const failed = !dsoRes.ok ? dsoRes : !rulesRes.ok ? rulesRes : null;
+  return pageOutcome(contracts.length, inserted, failed);
+}
+
+async function pollScanRounds(network: Network): Promise<JobOutcome> {
+  const [openRes, closedRes] = await Promise.all([
+    scanIngest.getOpenAndIssuingMiningRounds(),
+    scanIngest.getClosedRounds(),
+  ]);
+  // Issuing rounds share numbers with open/closed ones, so they are not stored
+  const rounds: ScanContract[] = [];
+  if (openRes.ok) {
+    for (const r of Object.values(openRes.data.open_mining_rounds)) rounds.push(r.contract);
+  } else {
+    console.warn(`[scheduler] ${network} scan open rounds failed: ${openRes.error}`);
+  }
+  if (closedRes.ok) {
+    // Closed after open: a round that just closed ends up with its closed contract
+    for (const r of closedRes.data.rounds) rounds.push(r.contract);
+  } else {
+    console.warn(`[scheduler] ${network} scan closed rounds failed: ${closedRes.error}`);
+  }
+  const inserted = await withTransaction((db) => upsertScanRounds(db, network, rounds));
+  console.log(`[scheduler] ${network} scan rounds: ${rounds.length} fetched, ${inserted} new`);
+  const failed = !openRes.ok ? openRes : !closedRes.ok ? closedRes : null;
+  return pageOutcome(rounds.length, inserted, failed);
 }
 
-async function pollTransfers(): Promise<void> {
-  const res = await lighthouse.getTransfers({ page_size: "100" });
+async function pollScanAns(network: Network): Promise<JobOutcome> {
+  const res = await scanIngest.getAnsEntries({ page_size: 1000 });
   if (!res.ok) {
-    console.warn(`[scheduler] transfers failed: ${res.error}`);
-    return;
+    console.warn(`[scheduler] ${network} scan ans failed: ${res.error}`);
+    return pageOutcome(0, 0, res);
   }
-  const transfers = res.data.transfers ?? [];
-  let inserted = 0;
-  for (const t of transfers) {
-    const id = String(t.id);
-    if (!id) continue;
-    const result = await query(
-      `INSERT INTO transfers (id, network, created_at, sender, receiver, amount, raw)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
-       ON CONFLICT (id, network) DO NOTHING`,
-      [
-        id,
-        network,
-        t.created_at ?? null,
-        t.sender_address ?? null,
-        t.receiver_address ?? null,
-        t.amount ?? null,
-        JSON.stringify(t),
-      ],
+  const entries = res.data.entries;
+  const inserted = await withTransaction((db) => upsertScanAnsEntries(db, network, entries));
+  if (entries.length > 0) {
+    console.log(
+      `[scheduler] ${network} scan ans entries: ${entries.length} upserted, ${inserted} new`,
     );
-    inserted += result.rowCount ?? 0;
   }
-  console.log(`[scheduler] transfers: ${transfers.length} fetched, ${inserted} new`);
+  return pageOutcome(entries.length, inserted, null);
 }
 
-async function pollGovernance(): Promise<void> {
-  const [votesRes, statsRes] = await Promise.all([
-    lighthouse.getGovernanceVotes({ page_size: "100" }),
-    lighthouse.getGovernanceStats(),
-  ]);
+/**
+ * Streams Scan updates forwards from the `scan:updates` checkpoint. The
+ * position is saved after every page, so restarts and outages resume exactly
+ * where ingestion stopped.
+ */
+async function pollScanUpdates(network: Network): Promise<JobOutcome> {
+  const cp = await getCheckpoint("scan:updates", network);
+  if (!cp.lastCursor) {
+    cp.lastCursor = encodeUpdatesCursor({
+      after_migration_id: config.scanApi.updatesMigrationId,
+      after_record_time: config.scanApi.updatesStartAt || new Date().toISOString(),
+    });
+    await saveCheckpoint(cp);
+  }
 
-  if (votesRes.ok) {
-    const votes = votesRes.data.vote_requests ?? [];
-    for (const v of votes) {
-      if (!v.id) continue;
-      await query(
-        `INSERT INTO governance_votes (id, network, raw)
-         VALUES ($1, $2, $3)
-         ON CONFLICT (id, network) DO UPDATE SET raw = EXCLUDED.raw`,
-        [v.id, network, JSON.stringify(v)],
-      );
+  let fetched = 0;
+  let inserted = 0;
+  let caughtUp = false;
+  let failure: { status: number; error: string } | null = null;
+  for await (const page of scanIngest.pageUpdates(
+    decodeUpdatesCursor(cp.lastCursor),
+    100,
+    config.polling.maxPages,
+  )) {
+    if (!page.ok) {
+      failure = page;
+      break;
     }
-    console.log(`[scheduler] governance votes upserted: ${votes.length}`);
-  } else {
-    console.warn(`[scheduler] governance votes failed: ${votesRes.error}`);
+    const updates = page.data.items;
+    const last = updates[updates.length - 1];
+    if (last) {
+      inserted += await withTransaction((db) => upsertScanTransactions(db, network, updates));
+      fetched += updates.length;
+      cp.lastCursor = encodeUpdatesCursor({
+        after_migration_id: last.migration_id,
+        after_record_time: last.record_time,
+      });
+    }
+    caughtUp = page.data.nextCursor === undefined;
+    await saveCheckpoint(cp);
   }
 
-  if (statsRes.ok) {
-    await query(`INSERT INTO governance_stats_snapshots (network, raw) VALUES ($1, $2)`, [
-      network,
-      JSON.stringify(statsRes.data),
-    ]);
+  if (failure) {
+    console.warn(`[scheduler] ${network} scan updates failed: ${failure.error}`);
+  } else {
+    cp.lastSyncedAt = new Date().toISOString();
+    await saveCheckpoint(cp);
   }
+  console.log(
+    `[scheduler] ${network} scan updates: ${fetched} fetched, ${inserted} new` +
+      (caughtUp || failure ? "" : " (behind, will resume)"),
+  );
+  return pageOutcome(fetched, inserted, failure);
+}
+
+async function pollScan(network: Network): Promise<JobOutcome> {
+  return mergeOutcomes(
+    await Promise.all([pollScanDso(network), pollScanRounds(network), pollScanAns(network)]),
+  );
 }
 
-async function pollCns(): Promise<void> {
-  const res = await lighthouse.getCnsRecords({ page_size: "100" });
+// ── Own validator (only when VALIDATOR_API_ENABLED) ───────────────────────────
+
+// The wallet's party never changes for a given token, so it is looked up once
+let selfParty: string | null = null;
+
+async function resolveSelfParty(): Promise<string | null> {
+  if (selfParty) return selfParty;
+  const res = await validatorApiIngest.getUserStatus();
   if (!res.ok) {
-    console.warn(`[scheduler] cns failed: ${res.error}`);
-    return;
-  }
-  const records = res.data.cns ?? [];
-  let upserted = 0;
-  for (const r of records) {
-    if (!r.domain_name) continue;
-    await query(
-      `INSERT INTO cns_records (domain, network, party_id, raw)
-       VALUES ($1, $2, $3, $4)
-       ON CONFLICT (domain, network) DO UPDATE SET
-         party_id = EXCLUDED.party_id,
-         raw      = EXCLUDED.raw`,
-      [r.domain_name, network, r.party_address ?? null, JSON.stringify(r)],
+    console.warn(`[scheduler] self user-status failed: ${res.error}`);
+    return null;
+  }
+  selfParty = res.data.party_id;
+  return selfParty;
+}
+
+/**
+ * Walks the wallet history newest-first from `cursor` until it meets an event
+ * that is already stored. Event ids are opaque, so "already stored" — not a
+ * sequence number — is what marks the end of the new range.
+ */
+async function walkSelfTransactions(
+  network: Network,
+  partyId: string,
+  cursor: string | undefined,
+): Promise<WalkResult> {
+  const res: WalkResult = {
+    fetched: 0,
+    inserted: 0,
+    pages: 0,
+    headSeq: null,
+    headRound: null,
+    done: false,
+    resumeFrom: cursor,
+    upstreamStatus: null,
+  };
+  for await (const page of validatorApiIngest.pageTransactions(
+    cursor,
+    100,
+    config.validatorApi.maxPages,
+  )) {
+    if (!page.ok) return { ...res, error: page.error, upstreamStatus: page.status };
+    res.upstreamStatus = 200;
+    res.pages++;
+    const events = page.data.items;
+    const inserted = await withTransaction((db) =>
+      insertSelfTransactions(db, network, partyId, events),
     );
-    upserted++;
+    res.fetched += events.length;
+    res.inserted += inserted;
+    // A page holding an event that was stored before reaches the known range
+    if (inserted < events.filter((e) => e.event_id).length) {
+      return { ...res, done: true, resumeFrom: undefined };
+    }
+    res.resumeFrom = page.data.nextCursor;
   }
-  if (upserted > 0) console.log(`[scheduler] cns records upserted: ${upserted}`);
+  return { ...res, done: res.resumeFrom === undefined };
 }
 
-async function pollFeaturedApps(): Promise<void> {
-  const res = await lighthouse.getFeaturedApps();
-  if (!res.ok) {
-    console.warn(`[scheduler] featured-apps failed: ${res.error}`);
-    return;
+// Same gap-closing scheme as syncStream: an interrupted walk leaves a resume
+// cursor that is finished before the head is walked again
+async function syncSelfTransactions(network: Network, partyId: string): Promise<WalkResult> {
+  const cp = await getCheckpoint("self:transactions", network);
+  if (cp.resumeCursor) {
+    const gap = await walkSelfTransactions(network, partyId, cp.resumeCursor);
+    if (!gap.done) {
+      cp.resumeCursor = gap.resumeFrom ?? cp.resumeCursor;
+      await saveCheckpoint(cp);
+      return gap;
+    }
+    cp.resumeCursor = null;
   }
-  const apps = res.data.apps ?? [];
-  for (const app of apps) {
-    const provider = app.payload?.["provider"] as string | undefined;
-    if (!provider) continue;
-    await query(
-      `INSERT INTO featured_apps (name, network, party_id, raw)
-       VALUES ($1, $2, $3, $4)
-       ON CONFLICT (name, network) DO UPDATE SET
-         party_id   = EXCLUDED.party_id,
-         captured_at = NOW(),
-         raw        = EXCLUDED.raw`,
-      [provider, network, provider, JSON.stringify(app)],
+  const head = await walkSelfTransactions(network, partyId, undefined);
+  if (!head.done) cp.resumeCursor = head.resumeFrom ?? null;
+  if (!head.error) cp.lastSyncedAt = new Date().toISOString();
+  await saveCheckpoint(cp);
+  return head;
+}
+
+async function pollSelf(network: Network): Promise<JobOutcome> {
+  const partyId = await resolveSelfParty();
+  if (!partyId) {
+    return { fetched: 0, inserted: 0, upstreamStatus: null, error: "own party id unavailable" };
+  }
+
+  const [balanceRes, offersRes] = await Promise.all([
+    validatorApiIngest.getBalance(),
+    validatorApiIngest.getTransferOffers(),
+  ]);
+  const outcomes: JobOutcome[] = [];
+  if (balanceRes.ok) {
+    await withTransaction((db) => insertSelfBalance(db, network, partyId, balanceRes.data));
+    outcomes.push(pageOutcome(1, 1, null));
+  } else {
+    console.warn(`[scheduler] ${network} self balance failed: ${balanceRes.error}`);
+    outcomes.push(pageOutcome(0, 0, balanceRes));
+  }
+  if (offersRes.ok) {
+    const offers = offersRes.data.offers ?? [];
+    const inserted = await withTransaction((db) =>
+      syncSelfTransferOffers(db, network, partyId, offers),
     );
+    console.log(
+      `[scheduler] ${network} self transfer offers: ${offers.length} active, ${inserted} new`,
+    );
+    outcomes.push(pageOutcome(offers.length, inserted, null));
+  } else {
+    console.warn(`[scheduler] ${network} self transfer offers failed: ${offersRes.error}`);
+    outcomes.push(pageOutcome(0, 0, offersRes));
   }
-  if (apps.length > 0) console.log(`[scheduler] featured apps upserted: ${apps.length}`);
+
+  outcomes.push(
+    logSync(network, "self transactions", await syncSelfTransactions(network, partyId)),
+  );
+  return mergeOutcomes(outcomes);
 }
 
-async function pollPreapprovals(): Promise<void> {
-  const res = await lighthouse.getPreapprovals({ page_size: "100" });
-  if (!res.ok) {
-    console.warn(`[scheduler] preapprovals failed: ${res.error}`);
-    return;
-  }
-  const items = res.data.preapprovals ?? [];
-  let upserted = 0;
-  for (const p of items) {
-    const id = String(p.id);
-    if (!id) continue;
-    await query(
-      `INSERT INTO preapprovals (id, network, raw)
-       VALUES ($1, $2, $3)
-       ON CONFLICT (id, network) DO UPDATE SET raw = EXCLUDED.raw`,
-      [id, network, JSON.stringify(p)],
-    );
-    upserted++;
-  }
-  if (upserted > 0) console.log(`[scheduler] preapprovals upserted: ${upserted}`);
-}
-
-async function pollFullSnapshot(): Promise<void> {
-  console.log("[scheduler] full snapshot start");
-  await Promise.allSettled([
-    pollStats(),
-    pollValidators(),
-    pollRounds(),
-    pollTransactions(),
-    pollTransfers(),
-    pollGovernance(),
-    pollCns(),
-    pollFeaturedApps(),
-    pollPreapprovals(),
-  ]);
-  console.log("[scheduler] full snapshot done");
+// ── Consistency ───────────────────────────────────────────────────────────────
+
+/**
+ * Refetches rounds missing from the stored sequence, then re-derives the rounds
+ * that are short of transactions. Lighthouse has no transactions-by-round
+ * lookup, so those are only reported (GET /api/indexer/gaps) — a backfill over
+ * the round range fills them.
+ */
+async function pollGaps(network: Network): Promise<JobOutcome> {
+  const linked = await linkTransactionRounds(network, 10_000);
+  if (linked > 0)
+    console.log(`[scheduler] ${network} gaps: linked ${linked} transactions to their round`);
+
+  const missing = await findMissingRounds(network, config.gaps.maxAttempts, config.gaps.maxRepairs);
+  let repaired = 0;
+  let failed = 0;
+  let upstreamStatus: number | null = null;
+  for (const round of missing) {
+    const res = await lighthouseFor(network, "ingest").getRound(round);
+    upstreamStatus = res.ok ? 200 : res.status;
+    // The job was cancelled — not a failed repair of this round
+    if (!res.ok && res.status === ABORTED_STATUS) break;
+    if (res.ok) {
+      await withTransaction((db) => insertRounds(db, network, [res.data]));
+      await clearRoundGap(network, round);
+      repaired++;
+    } else {
+      failed++;
+      await recordRoundGap(network, round, `${res.status} ${res.error}`.trim());
+    }
+  }
+
+  const short = await refreshTransactionGaps(network);
+  console.log(
+    `[scheduler] ${network} gaps: ${missing.length} missing rounds, ${repaired} repaired, ` +
+      `${short} rounds short of transactions`,
+  );
+  return {
+    fetched: missing.length,
+    inserted: repaired,
+    upstreamStatus,
+    error: failed
+      ? `${failed} of ${missing.length} missing rounds could not be fetched`
+      : undefined,
+  };
 }
 
-// ── Scheduler ────────────────────────────────────────────────────────────────
+// ── Retention ─────────────────────────────────────────────────────────────────
 
-let started = false;
+// Rolls old validator uptime and price snapshots up per hour/day and thins the
+// stats snapshots, per RETENTION_* (see storage/retention.ts)
+async function pollRetention(network: Network): Promise<JobOutcome> {
+  const res = await applyRetention(network, config.retention);
+  console.log(
+    `[scheduler] ${network} retention: ${res.rolledUp} snapshots rolled up, ` +
+      `${res.merged} hourly rollups merged into days, ${res.deleted} rows deleted, ` +
+      `${res.jobRuns} job runs pruned`,
+  );
+  return { fetched: res.rolledUp + res.merged, inserted: 0, upstreamStatus: null };
+}
 
-export function startScheduler(): void {
-  if (started) return;
-  started = true;
+// Partitions are shared by all networks, so this runs with the default network's
+// scheduler only. Creates the months ahead and splits rows out of the default
+// partitions (see storage/partitions.ts).
+async function pollPartitions(): Promise<JobOutcome> {
+  const res = await maintainPartitions(config.partitions.monthsAhead);
+  return { fetched: res.moved, inserted: res.created, upstreamStatus: null };
+}
 
-  const p = config.polling;
+// ── Analytics ─────────────────────────────────────────────────────────────────
 
-  // Run immediately on start
-  void pollFullSnapshot();
+// Recomputes the daily aggregates for every day that got new rows since the last
+// run (see storage/aggregates.ts)
+async function pollAnalytics(network: Network): Promise<JobOutcome> {
+  const cp = await getCheckpoint("analytics:daily", network);
+  const res = await refreshDailyAggregates(
+    network,
+    cp.lastSyncedAt ? new Date(cp.lastSyncedAt) : null,
+  );
+  cp.lastSyncedAt = res.refreshedAt.toISOString();
+  await saveCheckpoint(cp);
+  if (res.days) console.log(`[scheduler] ${network} analytics: ${res.days} days refreshed`);
+  return { fetched: res.days, inserted: res.days, upstreamStatus: null };
+}
 
-  cron.schedule(secToCron(p.statsAndPrices), async () => {
-    await pollStats();
-  });
+// ── Jobs ──────────────────────────────────────────────────────────────────────
 
-  cron.schedule(secToCron(p.validatorsAndRounds), async () => {
-    await Promise.allSettled([pollValidators(), pollRounds()]);
-  });
+interface JobDef {
+  name: string;
+  // Which of the network's poll intervals the job runs on
+  every: PollInterval;
+  enabled: (network: Network) => boolean;
+  run: (network: Network) => Promise<JobOutcome>;
+}
 
-  cron.schedule(secToCron(p.rewardsAndTransactions), async () => {
-    await Promise.allSettled([pollTransactions(), pollTransfers()]);
-  });
+const always = () => true;
+// Scan and the own validator are configured once, for the default network
+function defaultNetworkOnly(on: boolean): (network: Network) => boolean {
+  return (network) => on && network === config.network;
+}
+
+const JOBS: JobDef[] = [
+  { name: "stats", every: "statsAndPrices", enabled: always, run: pollStats },
+  { name: "validators", every: "validatorsAndRounds", enabled: always, run: pollValidators },
+  { name: "rounds", every: "validatorsAndRounds", enabled: always, run: pollRounds },
+  {
+    name: "scan",
+    every: "validatorsAndRounds",
+    enabled: defaultNetworkOnly(config.scanApi.enabled),
+    run: pollScan,
+  },
+  {
+    name: "transactions",
+    every: "rewardsAndTransactions",
+    enabled: always,
+    run: pollTransactions,
+  },
+  { name: "transfers", every: "rewardsAndTransactions", enabled: always, run: pollTransfers },
+  { name: "rewards", every: "rewardsAndTransactions", enabled: always, run: pollRewards },
+  {
+    name: "self",
+    every: "rewardsAndTransactions",
+    enabled: defaultNetworkOnly(config.validatorApi.enabled),
+    run: pollSelf,
+  },
+  {
+    name: "scan-updates",
+    every: "rewardsAndTransactions",
+    enabled: defaultNetworkOnly(config.scanApi.enabled),
+    run: pollScanUpdates,
+  },
+  { name: "governance", every: "governance", enabled: always, run: pollGovernance },
+  { name: "cns", every: "governance", enabled: always, run: pollCns },
+  { name: "featured-apps", every: "governance", enabled: always, run: pollFeaturedApps },
+  { name: "preapprovals", every: "governance", enabled: always, run: pollPreapprovals },
+  { name: "contracts", every: "governance", enabled: always, run: pollContracts },
+  { name: "gaps", every: "gaps", enabled: always, run: pollGaps },
+  {
+    name: "retention",
+    every: "retention",
+    enabled: () => config.retention.enabled,
+    run: pollRetention,
+  },
+  {
+    name: "partitions",
+    every: "partitions",
+    enabled: defaultNetworkOnly(true),
+    run: pollPartitions,
+  },
+  { name: "analytics", every: "analytics", enabled: always, run: pollAnalytics },
+];
+
+export const JOB_NAMES = JOBS.map((j) => j.name);
+
+function intervalSec(network: Network, job: JobDef): number {
+  return config.perNetwork[network].polling[job.every];
+}
+
+interface Running {
+  startedAt: Date;
+  controller: AbortController;
+  done: Promise<void>;
+  // Another run was requested while this one was in flight (overlap = queue)
+  queued: boolean;
+}
+
+// Keyed by `network/job`
+const running = new Map<string, Running>();
 
-  cron.schedule(secToCron(p.governance), async () => {
-    await Promise.allSettled([pollGovernance(), pollCns(), pollFeaturedApps(), pollPreapprovals()]);
+/**
+ * Runs one job and records it in job_runs. At most one run per job and network
+ * is in flight: a run requested meanwhile (a tick, or the full snapshot) is
+ * dropped or, with POLL_OVERLAP=queue, coalesced into one run right after the
+ * current one.
+ */
+function runJob(network: Network, job: JobDef): Promise<void> {
+  const key = `${network}/${job.name}`;
+  const current = running.get(key);
+  if (current) {
+    if (config.polling.overlap === "queue") {
+      current.queued = true;
+    } else {
+      console.warn(`[scheduler] ${key} still running, skipping this run`);
+    }
+    return current.done;
+  }
+
+  const entry: Running = {
+    startedAt: new Date(),
+    controller: new AbortController(),
+    done: Promise.resolve(),
+    queued: false,
+  };
+  running.set(key, entry);
+  entry.done = execute(network, job, entry.controller).finally(() => {
+    running.delete(key);
+    if (entry.queued && started.has(network)) void runJob(network, job);
   });
+  return entry.done;
+}
+
+// A failure to record is logged and never stops the job itself
+async function execute(network: Network, job: JobDef, controller: AbortController): Promise<void> {
+  const key = `${network}/${job.name}`;
+  let runId: number | null = null;
+  try {
+    runId = await startJobRun(job.name, network);
+  } catch (err) {
+    console.error(`[scheduler] could not record start of ${key}:`, err);
+  }
+
+  const timeoutSec = config.polling.jobTimeoutSec || intervalSec(network, job);
+  const timer = setTimeout(
+    () => controller.abort(new Error(`timed out after ${timeoutSec}s`)),
+    timeoutSec * 1000,
+  );
+  let outcome: JobOutcome;
+  try {
+    outcome = await withSignal(controller.signal, () => job.run(network));
+  } catch (err) {
+    console.error(`[scheduler] ${key} threw:`, err);
+    const msg = err instanceof Error ? err.message : String(err);
+    outcome = { fetched: 0, inserted: 0, upstreamStatus: null, error: msg };
+  } finally {
+    clearTimeout(timer);
+  }
+  if (controller.signal.aborted) {
+    const reason = controller.signal.reason;
+    const msg = reason instanceof Error ? reason.message : String(reason);
+    console.warn(`[scheduler] ${key} aborted: ${msg}`);
+    outcome = { ...outcome, error: `aborted: ${msg}` };
+  }
+
+  if (runId === null) return;
+  try {
+    await finishJobRun(runId, outcome);
+  } catch (err) {
+    console.error(`[scheduler] could not record end of ${key}:`, err);
+  }
+}
+
+// Paused jobs are skipped by ticks and the full snapshot, never by a manual run
+async function pausedJobs(network: Network): Promise<Set<string>> {
+  try {
+    return new Set(await listPausedJobs(network));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.warn(`[scheduler] ${network} could not read paused jobs, running all: ${msg}`);
+    return new Set();
+  }
+}
+
+async function runScheduled(network: Network, job: JobDef): Promise<void> {
+  if ((await pausedJobs(network)).has(job.name)) return;
+  await runJob(network, job);
+}
+
+async function pollFullSnapshot(network: Network): Promise<void> {
+  const paused = await pausedJobs(network);
+  console.log(`[scheduler] ${network} full snapshot start`);
+  await Promise.allSettled(
+    JOBS.filter((j) => j.enabled(network) && !paused.has(j.name)).map((j) => runJob(network, j)),
+  );
+  console.log(`[scheduler] ${network} full snapshot done`);
+}
 
-  cron.schedule(secToCron(p.fullSnapshot), async () => {
-    await pollFullSnapshot();
+export interface JobState {
+  name: string;
+  enabled: boolean;
+  interval_sec: number;
+  timeout_sec: number;
+  running: boolean;
+  running_since: string | null;
+  // Only known on the replica that runs the network's scheduler
+  next_run_at: string | null;
+}
+
+export function jobStates(network: Network): JobState[] {
+  return JOBS.map((j) => {
+    const r = running.get(`${network}/${j.name}`);
+    const next = nextRunAt.get(`${network}/${j.name}`);
+    const interval = intervalSec(network, j);
+    return {
+      name: j.name,
+      enabled: j.enabled(network),
+      interval_sec: interval,
+      timeout_sec: config.polling.jobTimeoutSec || interval,
+      running: r !== undefined,
+      running_since: r?.startedAt.toISOString() ?? null,
+      next_run_at: next !== undefined ? new Date(next).toISOString() : null,
+    };
   });
+}
+
+// "stopped": this replica does not run the network's scheduler (not the leader)
+export type TriggerResult = "started" | "running" | "disabled" | "stopped";
+
+/** Starts one run of a job now, outside its schedule. Null for an unknown job. */
+export function triggerJob(network: Network, name: string): TriggerResult | null {
+  const job = JOBS.find((j) => j.name === name);
+  if (!job) return null;
+  if (!job.enabled(network)) return "disabled";
+  if (!started.has(network)) return "stopped";
+  if (running.has(`${network}/${name}`)) return "running";
+  console.log(`[scheduler] ${network}/${name} triggered manually`);
+  void runJob(network, job);
+  return "started";
+}
+
+/**
+ * Runs one job to completion outside the schedule, without recording it in
+ * job_runs — for scripts and tests. Null for an unknown job.
+ */
+export async function runJobOnce(network: Network, name: string): Promise<JobOutcome | null> {
+  const job = JOBS.find((j) => j.name === name);
+  return job ? job.run(network) : null;
+}
+
+// ── Scheduler ────────────────────────────────────────────────────────────────
+
+// Each network is scheduled, and led, independently
+const started = new Set<Network>();
+const timers = new Map<Network, Set<NodeJS.Timeout>>();
+// Keyed by `network/job`
+const nextRunAt = new Map<string, number>();
+
+/**
+ * Calls `fn` every `seconds`, each tick shifted by up to ±POLL_JITTER_PCT of the
+ * interval. Ticks are anchored to the start time rather than to the previous
+ * tick, so jitter and slow runs never make the schedule drift.
+ */
+function every(network: Network, name: string, seconds: number, fn: () => Promise<unknown>): void {
+  const intervalMs = seconds * 1000;
+  const armed = timers.get(network) ?? new Set<NodeJS.Timeout>();
+  timers.set(network, armed);
+  let due = Date.now() + intervalMs;
+  const arm = () => {
+    // Skip ticks missed while the process was stalled instead of firing them all
+    while (due <= Date.now()) due += intervalMs;
+    const jitter = (Math.random() * 2 - 1) * intervalMs * (config.polling.jitterPct / 100);
+    const at = Math.max(Date.now(), due + jitter);
+    const timer = setTimeout(() => {
+      armed.delete(timer);
+      due += intervalMs;
+      arm();
+      void fn();
+    }, at - Date.now());
+    armed.add(timer);
+    nextRunAt.set(`${network}/${name}`, at);
+  };
+  arm();
+}
+
+export function startScheduler(network: Network = config.network): void {
+  if (started.has(network)) return;
+  started.add(network);
+  const p = config.perNetwork[network].polling;
+
+  // Run immediately on start
+  void pollFullSnapshot(network);
+
+  for (const job of JOBS) {
+    if (job.enabled(network)) {
+      every(network, job.name, p[job.every], () => runScheduled(network, job));
+    }
+  }
+  every(network, "full-snapshot", p.fullSnapshot, () => pollFullSnapshot(network));
 
   console.log("[scheduler] started", {
     network,
@@ -314,11 +1118,60 @@ export function startScheduler(): void {
     rewardsAndTransactions: `${p.rewardsAndTransactions}s`,
     governance: `${p.governance}s`,
     fullSnapshot: `${p.fullSnapshot}s`,
+    gaps: `${p.gaps}s`,
+    retention: config.retention.enabled ? `${p.retention}s` : "off",
+    jitter: `±${config.polling.jitterPct}%`,
+    overlap: config.polling.overlap,
   });
 }
 
-export function stopScheduler(): void {
-  cron.getTasks().forEach((task) => task.stop());
-  started = false;
-  console.log("[scheduler] stopped");
+// No more ticks for the network; runs in flight are left alone
+function stopTimers(network: Network): boolean {
+  if (!started.delete(network)) return false;
+  for (const timer of timers.get(network) ?? []) clearTimeout(timer);
+  timers.delete(network);
+  for (const key of nextRunAt.keys()) {
+    if (key.startsWith(`${network}/`)) nextRunAt.delete(key);
+  }
+  return true;
+}
+
+// Cancels the network's timers and aborts its runs in flight; they still record
+// their outcome
+export function stopScheduler(network: Network = config.network): void {
+  if (!stopTimers(network)) return;
+  for (const [key, r] of running) {
+    if (!key.startsWith(`${network}/`)) continue;
+    r.queued = false;
+    r.controller.abort(new Error("scheduler stopped"));
+  }
+  console.log(`[scheduler] ${network} stopped`);
+}
+
+/**
+ * Stops every network's timers, then gives the runs in flight up to `graceMs`
+ * to finish. Whatever is still running after that is aborted — its fetches
+ * are cancelled and it records its outcome — and waited for.
+ */
+export async function drainScheduler(graceMs: number): Promise<void> {
+  for (const network of [...started]) stopTimers(network);
+  const inFlight = [...running.values()];
+  if (inFlight.length === 0) return;
+  for (const r of inFlight) r.queued = false;
+
+  console.log(`[scheduler] waiting up to ${graceMs}ms for ${[...running.keys()].join(", ")}`);
+  const all = Promise.allSettled(inFlight.map((r) => r.done));
+  let timer: NodeJS.Timeout | undefined;
+  const finished = await Promise.race([
+    all.then(() => true),
+    new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), graceMs);
+    }),
+  ]);
+  clearTimeout(timer);
+  if (finished) return;
+
+  console.warn(`[scheduler] aborting ${[...running.keys()].join(", ")}`);
+  for (const r of running.values()) r.controller.abort(new Error("shutting down"));
+  await all;
 }
@@ -0,0 +1,144 @@
+import { queryOne, queryRows, withTransaction } from "./db.js";
+
+// Daily rollups (migration 004): network activity per UTC day in
+// daily_network_activity, rewards per party and day in daily_party_rewards.
+// Reads that would group raw rows on every request read these instead. A day is
+// recomputed from the raw tables whenever rows for it were captured since the
+// previous refresh, so late rows and backfills land in the right day.
+
+const DAY_MS = 86_400_000;
+
+// Rows are stamped with captured_at when their transaction starts, not when it
+// commits — changes are looked for this far before the previous refresh
+const OVERLAP_MS = 10 * 60_000;
+
+export interface AggregateResult {
+  // Days recomputed
+  days: number;
+  // Pass back as `since` on the next refresh
+  refreshedAt: Date;
+}
+
+// "2026-03-02" for the UTC day starting at `day`
+function dayKey(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+// UTC days with rows captured at or after `since`, oldest first; every day with
+// rows when `since` is null
+async function changedDays(network: string, since: Date | null): Promise<Date[]> {
+  const rows = await queryRows<{ day: Date }>(
+    `SELECT date_trunc('day', created_at, 'UTC') AS day FROM transactions
+     WHERE network = $1 AND ($2::TIMESTAMPTZ IS NULL OR captured_at >= $2)
+     UNION
+     SELECT date_trunc('day', created_at, 'UTC') FROM transfers
+     WHERE network = $1 AND ($2::TIMESTAMPTZ IS NULL OR captured_at >= $2)
+     UNION
+     SELECT date_trunc('day', created_at, 'UTC') FROM rewards
+     WHERE network = $1 AND created_at IS NOT NULL
+       AND ($2::TIMESTAMPTZ IS NULL OR captured_at >= $2)
+     UNION
+     SELECT date_trunc('day', captured_at, 'UTC') FROM validator_snapshots
+     WHERE network = $1 AND ($2::TIMESTAMPTZ IS NULL OR captured_at >= $2)
+     ORDER BY day`,
+    [network, since],
+  );
+  return rows.map((r) => r.day);
+}
+
+/**
+ * Rebuilds one day of both tables: the day's party rewards are replaced, then
+ * the network row is recomputed, its reward totals summed from those. The
+ * upstream_tx_count column is left as it is.
+ */
+async function refreshDay(network: string, day: Date): Promise<void> {
+  const params = [
+    network,
+    dayKey(day),
+    day.toISOString(),
+    new Date(day.getTime() + DAY_MS).toISOString(),
+  ];
+  await withTransaction(async (db) => {
+    await db.query(
+      `DELETE FROM daily_party_rewards WHERE network = $1 AND day = $2::DATE`,
+      params.slice(0, 2),
+    );
+    await db.query(
+      `INSERT INTO daily_party_rewards
+         (network, day, party_id, reward_count, app_rewards, validator_rewards, sv_rewards,
+          last_reward_at)
+       SELECT $1, $2::DATE, party_id, COUNT(*),
+              COALESCE(SUM(app_reward), 0), COALESCE(SUM(validator_reward), 0),
+              COALESCE(SUM(sv_reward), 0), MAX(created_at)
+       FROM rewards
+       WHERE network = $1 AND created_at >= $3 AND created_at < $4
+       GROUP BY party_id`,
+      params,
+    );
+    // Validators active that day, from raw snapshots and from whatever retention
+    // already rolled up
+    await db.query(
+      `INSERT INTO daily_network_activity
+         (network, day, tx_count, transfer_count, transfer_volume, unique_senders,
+          unique_receivers, reward_count, app_rewards, validator_rewards, sv_rewards,
+          active_validators, refreshed_at)
+       SELECT $1, $2::DATE,
+              (SELECT COUNT(*) FROM transactions
+               WHERE network = $1 AND created_at >= $3 AND created_at < $4),
+              t.transfer_count, t.transfer_volume, t.unique_senders, t.unique_receivers,
+              r.reward_count, r.app_rewards, r.validator_rewards, r.sv_rewards,
+              (SELECT COUNT(*) FROM (
+                 SELECT validator_id FROM validator_snapshots
+                 WHERE network = $1 AND captured_at >= $3 AND captured_at < $4 AND is_active
+                 UNION
+                 SELECT validator_id FROM validator_uptime_rollups
+                 WHERE network = $1 AND bucket >= $3 AND bucket < $4 AND active_samples > 0
+               ) v),
+              NOW()
+       FROM (
+         SELECT COUNT(*)                       AS transfer_count,
+                COALESCE(SUM(amount), 0)       AS transfer_volume,
+                COUNT(DISTINCT sender)         AS unique_senders,
+                COUNT(DISTINCT receiver)       AS unique_receivers
+         FROM transfers
+         WHERE network = $1 AND created_at >= $3 AND created_at < $4
+       ) t, (
+         SELECT COALESCE(SUM(reward_count), 0)      AS reward_count,
+                COALESCE(SUM(app_rewards), 0)       AS app_rewards,
+                COALESCE(SUM(validator_rewards), 0) AS validator_rewards,
+                COALESCE(SUM(sv_rewards), 0)        AS sv_rewards
+         FROM daily_party_rewards
+         WHERE network = $1 AND day = $2::DATE
+       ) r
+       ON CONFLICT (network, day) DO UPDATE SET
+         tx_count          = EXCLUDED.tx_count,
+         transfer_count    = EXCLUDED.transfer_count,
+         transfer_volume   = EXCLUDED.transfer_volume,
+         unique_senders    = EXCLUDED.unique_senders,
+         unique_receivers  = EXCLUDED.unique_receivers,
+         reward_count      = EXCLUDED.reward_count,
+         app_rewards       = EXCLUDED.app_rewards,
+         validator_rewards = EXCLUDED.validator_rewards,
+         sv_rewards        = EXCLUDED.sv_rewards,
+         active_validators = EXCLUDED.active_validators,
+         refreshed_at      = EXCLUDED.refreshed_at`,
+      params,
+    );
+  });
+}
+
+/**
+ * Recomputes every day with rows captured since the previous refresh (`since`,
+ * from its result), one transaction per day. The first refresh, with no
+ * `since`, covers the whole history.
+ */
+export async function refreshDailyAggregates(
+  network: string,
+  since: Date | null,
+): Promise<AggregateResult> {
+  const now = await queryOne<{ at: Date }>(`SELECT NOW() AS at`);
+  const refreshedAt = now?.at ?? new Date();
+  const days = await changedDays(network, since ? new Date(since.getTime() - OVERLAP_MS) : null);
+  for (const day of days) await refreshDay(network, day);
+  return { days: days.length, refreshedAt };
+}
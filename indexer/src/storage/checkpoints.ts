@@ -0,0 +1,98 @@
+import { query, queryOne, queryRows } from "./db.js";
+
+// BIGINT columns come back from pg as strings — they are converted at the edge.
+interface CheckpointRow {
+  job: string;
+  network: string;
+  last_seq: string | null;
+  last_round: string | null;
+  resume_cursor: string | null;
+  pending_seq: string | null;
+  last_cursor: string | null;
+  last_synced_at: string | null;
+  updated_at: string;
+}
+
+export interface SyncCheckpoint {
+  job: string;
+  network: string;
+  lastSeq: number | null;
+  lastRound: number | null;
+  resumeCursor: string | null;
+  pendingSeq: number | null;
+  lastCursor: string | null;
+  lastSyncedAt: string | null;
+  updatedAt: string | null;
+}
+
+function toNumber(v: string | null): number | null {
+  return v === null ? null : Number(v);
+}
+
+function fromRow(row: CheckpointRow): SyncCheckpoint {
+  return {
+    job: row.job,
+    network: row.network,
+    lastSeq: toNumber(row.last_seq),
+    lastRound: toNumber(row.last_round),
+    resumeCursor: row.resume_cursor,
+    pendingSeq: toNumber(row.pending_seq),
+    lastCursor: row.last_cursor,
+    lastSyncedAt: row.last_synced_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function getCheckpoint(job: string, network: string): Promise<SyncCheckpoint> {
+  const row = await queryOne<CheckpointRow>(
+    `SELECT * FROM sync_checkpoints WHERE job = $1 AND network = $2`,
+    [job, network],
+  );
+  if (row) return fromRow(row);
+  return {
+    job,
+    network,
+    lastSeq: null,
+    lastRound: null,
+    resumeCursor: null,
+    pendingSeq: null,
+    lastCursor: null,
+    lastSyncedAt: null,
+    updatedAt: null,
+  };
+}
+
+export async function saveCheckpoint(cp: SyncCheckpoint): Promise<void> {
+  await query(
+    `INSERT INTO sync_checkpoints
+       (job, network, last_seq, last_round, resume_cursor, pending_seq, last_cursor,
+        last_synced_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+     ON CONFLICT (job, network) DO UPDATE SET
+       last_seq       = EXCLUDED.last_seq,
+       last_round     = EXCLUDED.last_round,
+       resume_cursor  = EXCLUDED.resume_cursor,
+       pending_seq    = EXCLUDED.pending_seq,
+       last_cursor    = EXCLUDED.last_cursor,
+       last_synced_at = EXCLUDED.last_synced_at,
+       updated_at     = NOW()`,
+    [
+      cp.job,
+      cp.network,
+      cp.lastSeq,
+      cp.lastRound,
+      cp.resumeCursor,
+      cp.pendingSeq,
+      cp.lastCursor,
+      cp.lastSyncedAt,
+    ],
+  );
+}
+
+export async function listCheckpoints(network: string): Promise<SyncCheckpoint[]> {
+  const rows = await queryRows<CheckpointRow>(
+    `SELECT * FROM sync_checkpoints WHERE network = $1 ORDER BY job`,
+    [network],
+  );
+  return rows.map(fromRow);
+}
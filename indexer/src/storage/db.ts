@@ -41,6 +41,25 @@ export async function queryOne<T extends QueryResultRow = QueryResultRow>(
   return result.rows[0] ?? null;
 }
 
+// The pool itself or a client checked out for a transaction
+export type Queryable = Pick<PoolClient, "query">;
+
+/**
+ * Placeholders for a multi-row VALUES list: [[a, b], [c, d]] becomes
+ * "($1, $2), ($3, $4)" with params [a, b, c, d], numbered from `offset + 1`.
+ */
+export function valuesList(rows: unknown[][], offset = 0): { sql: string; params: unknown[] } {
+  const params: unknown[] = [];
+  const tuples = rows.map((row) => {
+    const slots = row.map((v) => {
+      params.push(v);
+      return `$${offset + params.length}`;
+    });
+    return `(${slots.join(", ")})`;
+  });
+  return { sql: tuples.join(", "), params };
+}
+
 export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
   const client = await pool.connect();
   try {
@@ -56,22 +75,6 @@ export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>)
   }
 }
 
-export async function migrate(): Promise<void> {
-  const { readFileSync } = await import("fs");
-  const { join } = await import("path");
-
-  const schemaPath = join(__dirname, "schema.sql");
-  const sql = readFileSync(schemaPath, "utf8");
-
-  const client = await pool.connect();
-  try {
-    await client.query(sql);
-    console.log("[db] schema applied");
-  } finally {
-    client.release();
-  }
-}
-
 export async function checkConnection(): Promise<boolean> {
   try {
     await pool.query("SELECT 1");
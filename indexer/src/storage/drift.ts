@@ -0,0 +1,84 @@
+import { query } from "./db.js";
+import { DriftIssue } from "../collectors/shapes.js";
+
+// Drift shows up on every response of an endpoint until the types are fixed, so
+// sightings are counted in memory and written at most once per key per window.
+const FLUSH_WINDOW_MS = 60_000;
+// Larger sample values are not worth keeping
+const MAX_SAMPLE_BYTES = 2_000;
+
+interface Pending {
+  lastWrite: number;
+  unwritten: number;
+}
+
+const pending = new Map<string, Pending>();
+
+function sampleJson(value: unknown): string | null {
+  if (value === undefined) return null;
+  const json = JSON.stringify(value);
+  return json.length <= MAX_SAMPLE_BYTES ? json : null;
+}
+
+/**
+ * Records the drift found in one upstream response. Never throws — a failed
+ * write only costs a log line, never the response it was found in.
+ */
+export async function recordDrift(
+  network: string,
+  source: string,
+  endpoint: string,
+  schemaName: string,
+  issues: DriftIssue[],
+): Promise<void> {
+  const now = Date.now();
+  for (const issue of issues) {
+    const key = `${network}|${source}|${endpoint}|${issue.path}|${issue.kind}`;
+    const p = pending.get(key);
+    if (!p) {
+      console.warn(
+        `[drift] ${network} ${source} ${endpoint}: ${issue.kind} at ${issue.path}` +
+          ` (expected ${issue.expected ?? "-"}, got ${issue.actual ?? "-"})`,
+      );
+    }
+    const entry = p ?? { lastWrite: 0, unwritten: 0 };
+    entry.unwritten++;
+    pending.set(key, entry);
+    if (now - entry.lastWrite < FLUSH_WINDOW_MS) continue;
+
+    const count = entry.unwritten;
+    entry.lastWrite = now;
+    entry.unwritten = 0;
+    try {
+      await query(
+        `INSERT INTO schema_drift_events
+           (network, source, endpoint, schema_name, path, kind, expected, actual, sample, occurrences)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         ON CONFLICT (network, source, endpoint, path, kind) DO UPDATE SET
+           schema_name  = EXCLUDED.schema_name,
+           expected     = EXCLUDED.expected,
+           actual       = EXCLUDED.actual,
+           sample       = COALESCE(EXCLUDED.sample, schema_drift_events.sample),
+           occurrences  = schema_drift_events.occurrences + EXCLUDED.occurrences,
+           last_seen_at = NOW()`,
+        [
+          network,
+          source,
+          endpoint,
+          schemaName,
+          issue.path,
+          issue.kind,
+          issue.expected,
+          issue.actual,
+          sampleJson(issue.sample),
+          count,
+        ],
+      );
+    } catch (err) {
+      // Most likely the database is down — skip the rest of this response's issues
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`[drift] failed to record drift events: ${msg}`);
+      return;
+    }
+  }
+}
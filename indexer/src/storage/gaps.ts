@@ -0,0 +1,146 @@
+import { query, queryRows, withTransaction } from "./db.js";
+
+// Holes in the stored history. Missing rounds are found from the `rounds`
+// sequence itself; a round is short of transactions when fewer rows link to it
+// than its `total_tx`. Only what is still missing after a repair attempt is kept
+// in data_gaps — a repaired gap is deleted.
+
+export type GapKind = "round" | "round_transactions";
+
+export interface DataGap {
+  kind: GapKind;
+  round: number;
+  expected: number | null;
+  found: number | null;
+  attempts: number;
+  last_error: string | null;
+  first_seen_at: string;
+  last_checked_at: string;
+}
+
+/**
+ * Rounds missing between the oldest and newest stored round, newest first.
+ * Rounds that already failed `maxAttempts` repairs are left out, so a round
+ * the upstream no longer serves cannot starve the others.
+ */
+export async function findMissingRounds(
+  network: string,
+  maxAttempts: number,
+  limit: number,
+): Promise<number[]> {
+  const rows = await queryRows<{ round: string }>(
+    `WITH ranges AS (
+       SELECT round + 1 AS first, next - 1 AS last
+       FROM (
+         SELECT round, LEAD(round) OVER (ORDER BY round) AS next
+         FROM rounds WHERE network = $1
+       ) r
+       WHERE next > round + 1
+     )
+     SELECT g.round
+     FROM ranges, generate_series(ranges.first, ranges.last) AS g(round)
+     WHERE NOT EXISTS (
+       SELECT 1 FROM data_gaps d
+       WHERE d.network = $1 AND d.kind = 'round' AND d.round = g.round AND d.attempts >= $2
+     )
+     ORDER BY g.round DESC
+     LIMIT $3`,
+    [network, maxAttempts, limit],
+  );
+  return rows.map((r) => Number(r.round));
+}
+
+// Counts a failed repair of a missing round
+export async function recordRoundGap(network: string, round: number, error: string): Promise<void> {
+  await query(
+    `INSERT INTO data_gaps (network, kind, round, attempts, last_error)
+     VALUES ($1, 'round', $2, 1, $3)
+     ON CONFLICT (network, kind, round) DO UPDATE SET
+       attempts        = data_gaps.attempts + 1,
+       last_error      = EXCLUDED.last_error,
+       last_checked_at = NOW()`,
+    [network, round, error],
+  );
+}
+
+export async function clearRoundGap(network: string, round: number): Promise<void> {
+  await query(`DELETE FROM data_gaps WHERE network = $1 AND kind = 'round' AND round = $2`, [
+    network,
+    round,
+  ]);
+}
+
+/**
+ * Fills in transactions.round from the raw payload for rows written before the
+ * column was populated. Works in bounded batches; resolves the rows linked.
+ * A ctid is only unique within one partition, hence the tableoid.
+ */
+export async function linkTransactionRounds(network: string, batch: number): Promise<number> {
+  const result = await query(
+    `UPDATE transactions SET round = (raw->>'round')::BIGINT
+     WHERE (tableoid, ctid) IN (
+       SELECT tableoid, ctid FROM transactions
+       WHERE network = $1 AND round IS NULL AND raw->>'round' IS NOT NULL
+       LIMIT $2
+     )`,
+    [network, batch],
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Re-derives the round_transactions gaps: every round inside the range covered
+ * by linked transactions whose total_tx exceeds the stored count. The newest
+ * linked round is skipped — it may still be filling up. Resolves the number of
+ * rounds now short.
+ */
+export async function refreshTransactionGaps(network: string): Promise<number> {
+  return withTransaction(async (db) => {
+    const short = await db.query(
+      `WITH bounds AS (
+         SELECT MIN(round) AS lo, MAX(round) AS hi
+         FROM transactions WHERE network = $1 AND round IS NOT NULL
+       ),
+       counts AS (
+         SELECT r.round, (r.raw->>'total_tx')::INTEGER AS expected,
+                (SELECT COUNT(*) FROM transactions t
+                 WHERE t.network = $1 AND t.round = r.round)::INTEGER AS found
+         FROM rounds r, bounds b
+         WHERE r.network = $1 AND r.round >= b.lo AND r.round < b.hi
+           AND r.raw->>'total_tx' IS NOT NULL
+       )
+       INSERT INTO data_gaps (network, kind, round, expected, found)
+       SELECT $1, 'round_transactions', round, expected, found
+       FROM counts WHERE found < expected
+       ON CONFLICT (network, kind, round) DO UPDATE SET
+         expected        = EXCLUDED.expected,
+         found           = EXCLUDED.found,
+         last_checked_at = NOW()
+       RETURNING round`,
+      [network],
+    );
+    // Whatever was not re-detected just now has been filled in meanwhile
+    await db.query(
+      `DELETE FROM data_gaps
+       WHERE network = $1 AND kind = 'round_transactions' AND NOT (round = ANY($2::BIGINT[]))`,
+      [network, short.rows.map((r: { round: string }) => r.round)],
+    );
+    return short.rowCount ?? 0;
+  });
+}
+
+export async function listGaps(
+  network: string,
+  kind: GapKind | undefined,
+  limit: number,
+): Promise<DataGap[]> {
+  return queryRows<DataGap>(
+    `SELECT kind, round::INTEGER AS round, expected, found, attempts, last_error,
+            first_seen_at, last_checked_at
+     FROM data_gaps
+     WHERE network = $1 AND ($2::TEXT IS NULL OR kind = $2)
+     ORDER BY round DESC
+     LIMIT $3`,
+    [network, kind ?? null, limit],
+  );
+}
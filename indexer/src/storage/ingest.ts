@@ -0,0 +1,572 @@
+import { Queryable, valuesList } from "./db.js";
+import { config } from "../config.js";
+import {
+  LighthouseCnsRecord,
+  LighthouseContract,
+  LighthouseFeaturedApp,
+  LighthouseGovernanceVote,
+  LighthousePreapproval,
+  LighthouseReward,
+  LighthouseRound,
+  LighthouseStats,
+  LighthouseTransaction,
+  LighthouseTransfer,
+  LighthouseValidator,
+} from "../collectors/lighthouse.js";
+import { ScanAnsEntry, ScanContract, scanRoundNumber, ScanUpdate } from "../collectors/scan.js";
+import {
+  isTrafficPurchase,
+  WalletBalance,
+  WalletContract,
+  WalletTxLogEntry,
+} from "../collectors/validator.js";
+
+// Row writers shared by the scheduler pollers and the backfill. The batch writers
+// take a whole page of rows, write it with multi-row statements and resolve how
+// many rows were new; callers run them inside withTransaction so a failed batch
+// leaves nothing half-written.
+
+// Rows per statement — keeps every table here well below Postgres' 65535 bind parameters
+const CHUNK_ROWS = 500;
+
+/**
+ * Runs `${head} VALUES ... ${tail}` over `rows` in chunks. A tail ending in
+ * `RETURNING (xmax = 0) AS inserted` counts only rows that were new; without
+ * RETURNING every affected row counts. `shared` params are bound first, as $1..$n.
+ */
+async function insertRows(
+  db: Queryable,
+  head: string,
+  rows: unknown[][],
+  tail: string,
+  shared: unknown[] = [],
+): Promise<number> {
+  let inserted = 0;
+  for (let i = 0; i < rows.length; i += CHUNK_ROWS) {
+    const values = valuesList(rows.slice(i, i + CHUNK_ROWS), shared.length);
+    const result = await db.query<{ inserted?: boolean }>(`${head} VALUES ${values.sql} ${tail}`, [
+      ...shared,
+      ...values.params,
+    ]);
+    inserted += result.rows.length
+      ? result.rows.filter((r) => r.inserted).length
+      : (result.rowCount ?? 0);
+  }
+  return inserted;
+}
+
+// ON CONFLICT DO UPDATE may not touch the same row twice in one statement;
+// within a batch the last copy of a key wins
+function lastByKey<T>(items: T[], key: (item: T) => string): T[] {
+  const byKey = new Map<string, T>();
+  for (const item of items) byKey.set(key(item), item);
+  return [...byKey.values()];
+}
+
+// Rows missing a field their table is keyed on cannot be stored; they are
+// reported, not dropped silently. `label` names a skipped row in the warning.
+function requireField<T>(
+  network: string,
+  kind: string,
+  field: string,
+  items: T[],
+  has: (item: T) => boolean,
+  label?: (item: T) => string,
+): T[] {
+  const kept = items.filter(has);
+  const skipped = items.filter((item) => !has(item));
+  if (skipped.length) {
+    const names = label
+      ? `: ${skipped.slice(0, 10).map(label).join(", ")}${skipped.length > 10 ? ", ..." : ""}`
+      : "";
+    console.warn(`[ingest] ${network}: skipped ${skipped.length} ${kind} without ${field}${names}`);
+  }
+  return kept;
+}
+
+export async function insertRounds(
+  db: Queryable,
+  network: string,
+  rounds: LighthouseRound[],
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO rounds (round, network, created_at, raw)`,
+    rounds
+      .filter((r) => r.round)
+      .map((r) => [r.round, network, r.open_at ?? null, JSON.stringify(r)]),
+    `ON CONFLICT (round, network) DO NOTHING`,
+  );
+}
+
+export async function insertTransactions(
+  db: Queryable,
+  network: string,
+  txs: LighthouseTransaction[],
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO transactions (update_id, network, created_at, round, raw)`,
+    requireField(
+      network,
+      "transactions",
+      "record_time",
+      txs.filter((tx) => tx.update_id),
+      (tx) => !!tx.record_time,
+      (tx) => tx.update_id,
+    ).map((tx) => [tx.update_id, network, tx.record_time, tx.round ?? null, JSON.stringify(tx)]),
+    `ON CONFLICT (update_id, network, created_at) DO NOTHING`,
+  );
+}
+
+export async function insertTransfers(
+  db: Queryable,
+  network: string,
+  transfers: LighthouseTransfer[],
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO transfers (id, network, created_at, sender, receiver, amount, raw)`,
+    requireField(
+      network,
+      "transfers",
+      "created_at",
+      requireField(network, "transfers", "id", transfers, (t) => t.id != null),
+      (t) => !!t.created_at,
+      (t) => String(t.id),
+    ).map((t) => [
+      String(t.id),
+      network,
+      t.created_at,
+      t.sender_address ?? null,
+      t.receiver_address ?? null,
+      t.amount ?? null,
+      JSON.stringify(t),
+    ]),
+    `ON CONFLICT (id, network, created_at) DO NOTHING`,
+  );
+}
+
+export async function insertRewards(
+  db: Queryable,
+  network: string,
+  partyId: string,
+  rewards: LighthouseReward[],
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO rewards
+       (id, network, party_id, round, app_reward, validator_reward, sv_reward, created_at, raw)`,
+    rewards
+      .filter((r) => r.id !== undefined && r.id !== null)
+      .map((r) => [
+        r.id,
+        network,
+        partyId,
+        r.round ?? null,
+        r.app_reward ?? null,
+        r.validator_reward ?? null,
+        r.sv_reward ?? null,
+        r.created_at ?? null,
+        JSON.stringify(r),
+      ]),
+    `ON CONFLICT (id, network, party_id) DO NOTHING`,
+  );
+}
+
+/**
+ * Keeps Lighthouse's daily transaction counts (stats.history_tx_14d) next to the
+ * daily aggregates, where they outlive the 14-day window. Days that are not a
+ * date are skipped.
+ */
+export async function upsertUpstreamTxCounts(
+  db: Queryable,
+  network: string,
+  history: LighthouseStats["history_tx_14d"] = [],
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO daily_network_activity (network, day, upstream_tx_count)`,
+    lastByKey(
+      history.filter((h) => /^\d{4}-\d{2}-\d{2}/.test(h.day ?? "")),
+      (h) => h.day.slice(0, 10),
+    ).map((h) => [network, h.day.slice(0, 10), h.tx_count ?? null]),
+    `ON CONFLICT (network, day) DO UPDATE SET upstream_tx_count = EXCLUDED.upstream_tx_count`,
+  );
+}
+
+/**
+ * Upserts the validator list and takes one uptime snapshot per validator.
+ * Resolves the number of validators seen for the first time.
+ */
+export async function upsertValidators(
+  db: Queryable,
+  network: string,
+  validators: LighthouseValidator[],
+): Promise<number> {
+  const rows = lastByKey(
+    validators.filter((v) => v.id),
+    (v) => v.id,
+  );
+  const inserted = await insertRows(
+    db,
+    `INSERT INTO validators (id, network, name, party_id, is_active, version, last_seen_at, raw)`,
+    rows.map((v) => [
+      v.id,
+      network,
+      null,
+      null,
+      v.last_active_at ? true : false,
+      v.version ?? null,
+      new Date().toISOString(),
+      JSON.stringify(v),
+    ]),
+    `ON CONFLICT (id, network) DO UPDATE SET
+       is_active    = EXCLUDED.is_active,
+       version      = EXCLUDED.version,
+       last_seen_at = NOW(),
+       raw          = EXCLUDED.raw
+     RETURNING (xmax = 0) AS inserted`,
+  );
+  await insertRows(
+    db,
+    `INSERT INTO validator_snapshots (validator_id, network, is_active, raw)`,
+    rows.map((v) => [v.id, network, v.last_active_at ? true : false, JSON.stringify(v)]),
+    ``,
+  );
+  return inserted;
+}
+
+export async function upsertGovernanceVotes(
+  db: Queryable,
+  network: string,
+  votes: LighthouseGovernanceVote[],
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO governance_votes (id, network, raw)`,
+    lastByKey(
+      votes.filter((v) => v.id),
+      (v) => v.id,
+    ).map((v) => [v.id, network, JSON.stringify(v)]),
+    `ON CONFLICT (id, network) DO UPDATE SET raw = EXCLUDED.raw
+     RETURNING (xmax = 0) AS inserted`,
+  );
+}
+
+export async function upsertCnsRecords(
+  db: Queryable,
+  network: string,
+  records: LighthouseCnsRecord[],
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO cns_records (domain, network, party_id, raw)`,
+    lastByKey(
+      records.filter((r) => r.domain_name),
+      (r) => r.domain_name,
+    ).map((r) => [r.domain_name, network, r.party_address ?? null, JSON.stringify(r)]),
+    `ON CONFLICT (domain, network) DO UPDATE SET
+       party_id = EXCLUDED.party_id,
+       raw      = EXCLUDED.raw
+     WHERE cns_records.source = 'lighthouse'
+     RETURNING (xmax = 0) AS inserted`,
+  );
+}
+
+// Featured apps are keyed by their provider party
+export async function upsertFeaturedApps(
+  db: Queryable,
+  network: string,
+  apps: LighthouseFeaturedApp[],
+): Promise<number> {
+  const provider = (app: LighthouseFeaturedApp) => app.payload?.["provider"] as string | undefined;
+  return insertRows(
+    db,
+    `INSERT INTO featured_apps (name, network, party_id, raw)`,
+    lastByKey(
+      apps.filter((a) => provider(a)),
+      (a) => provider(a)!,
+    ).map((a) => [provider(a), network, provider(a), JSON.stringify(a)]),
+    `ON CONFLICT (name, network) DO UPDATE SET
+       party_id    = EXCLUDED.party_id,
+       captured_at = NOW(),
+       raw         = EXCLUDED.raw
+     RETURNING (xmax = 0) AS inserted`,
+  );
+}
+
+export async function upsertPreapprovals(
+  db: Queryable,
+  network: string,
+  preapprovals: LighthousePreapproval[],
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO preapprovals (id, network, raw)`,
+    lastByKey(
+      requireField(network, "preapprovals", "id", preapprovals, (p) => p.id != null),
+      (p) => String(p.id),
+    ).map((p) => [String(p.id), network, JSON.stringify(p)]),
+    `ON CONFLICT (id, network) DO UPDATE SET raw = EXCLUDED.raw
+     RETURNING (xmax = 0) AS inserted`,
+  );
+}
+
+// Contracts are active-state rows: upserted so template/payload changes are picked up
+export async function upsertContracts(
+  db: Queryable,
+  network: string,
+  contracts: LighthouseContract[],
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO contracts (contract_id, network, template_id, raw)`,
+    lastByKey(
+      contracts.filter((c) => c.contract_id),
+      (c) => c.contract_id,
+    ).map((c) => [c.contract_id, network, c.template_id ?? null, JSON.stringify(c)]),
+    `ON CONFLICT (contract_id, network) DO UPDATE SET
+       template_id  = EXCLUDED.template_id,
+       captured_at  = NOW(),
+       active       = TRUE,
+       last_seen_at = NOW(),
+       raw          = EXCLUDED.raw
+     WHERE contracts.source = 'lighthouse'
+     RETURNING (xmax = 0) AS inserted`,
+  );
+}
+
+/**
+ * Flags the Lighthouse contracts a complete walk of the list did not return as
+ * archived (active = FALSE). `seenBefore` is when the previous complete walk
+ * ended: every contract still active was listed, and upserted, after that.
+ * Resolves the number of contracts archived.
+ */
+export async function archiveUnlistedContracts(
+  db: Queryable,
+  network: string,
+  seenBefore: string,
+): Promise<number> {
+  const result = await db.query(
+    `UPDATE contracts SET active = FALSE
+     WHERE network = $1 AND source = 'lighthouse' AND active AND last_seen_at < $2`,
+    [network, seenBefore],
+  );
+  return result.rowCount ?? 0;
+}
+
+// ── Scan ──────────────────────────────────────────────────────────────────────
+// Scan rows are marked source = 'scan'. On conflict they replace Lighthouse rows
+// only when SCAN_API_PREFERRED is set ($1); rows Scan already owns are always refreshed.
+
+export async function upsertScanRounds(
+  db: Queryable,
+  network: string,
+  contracts: ScanContract[],
+): Promise<number> {
+  const rows = contracts
+    .map((c) => ({ c, round: scanRoundNumber(c) }))
+    .filter((r): r is { c: ScanContract; round: number } => r.round !== null);
+  return insertRows(
+    db,
+    `INSERT INTO rounds (round, network, created_at, raw, source)`,
+    lastByKey(rows, (r) => String(r.round)).map(({ c, round }) => [
+      round,
+      network,
+      (c.payload["opensAt"] as string | undefined) ?? c.created_at ?? null,
+      JSON.stringify(c),
+      "scan",
+    ]),
+    `ON CONFLICT (round, network) DO UPDATE SET
+       created_at = EXCLUDED.created_at,
+       raw        = EXCLUDED.raw,
+       source     = 'scan'
+     WHERE $1 OR rounds.source = 'scan'
+     RETURNING (xmax = 0) AS inserted`,
+    [config.scanApi.preferred],
+  );
+}
+
+export async function upsertScanTransactions(
+  db: Queryable,
+  network: string,
+  updates: ScanUpdate[],
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO transactions (update_id, network, created_at, raw, source)`,
+    lastByKey(
+      updates.filter((u) => u.update_id && u.record_time),
+      (u) => u.update_id,
+    ).map((u) => [u.update_id, network, u.record_time, JSON.stringify(u), "scan"]),
+    `ON CONFLICT (update_id, network, created_at) DO UPDATE SET
+       raw        = EXCLUDED.raw,
+       source     = 'scan'
+     WHERE $1 OR transactions.source = 'scan'
+     RETURNING (xmax = 0) AS inserted`,
+    [config.scanApi.preferred],
+  );
+}
+
+export async function upsertScanAnsEntries(
+  db: Queryable,
+  network: string,
+  entries: ScanAnsEntry[],
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO cns_records (domain, network, party_id, raw, source)`,
+    lastByKey(
+      entries.filter((e) => e.name),
+      (e) => e.name,
+    ).map((e) => [e.name, network, e.user ?? null, JSON.stringify(e), "scan"]),
+    `ON CONFLICT (domain, network) DO UPDATE SET
+       party_id    = EXCLUDED.party_id,
+       captured_at = NOW(),
+       raw         = EXCLUDED.raw,
+       source      = 'scan'
+     WHERE $1 OR cns_records.source = 'scan'
+     RETURNING (xmax = 0) AS inserted`,
+    [config.scanApi.preferred],
+  );
+}
+
+export async function upsertScanContracts(
+  db: Queryable,
+  network: string,
+  contracts: ScanContract[],
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO contracts (contract_id, network, template_id, raw, source)`,
+    lastByKey(
+      contracts.filter((c) => c.contract_id),
+      (c) => c.contract_id,
+    ).map((c) => [c.contract_id, network, c.template_id ?? null, JSON.stringify(c), "scan"]),
+    `ON CONFLICT (contract_id, network) DO UPDATE SET
+       template_id = EXCLUDED.template_id,
+       captured_at = NOW(),
+       raw         = EXCLUDED.raw,
+       source      = 'scan'
+     WHERE $1 OR contracts.source = 'scan'
+     RETURNING (xmax = 0) AS inserted`,
+    [config.scanApi.preferred],
+  );
+}
+
+// ── Own validator (Validator API) ─────────────────────────────────────────────
+
+export async function insertSelfBalance(
+  db: Queryable,
+  network: string,
+  partyId: string,
+  b: WalletBalance,
+): Promise<number> {
+  return insertRows(
+    db,
+    `INSERT INTO self_balances (network, party_id, round, unlocked_qty, locked_qty, holding_fees, raw)`,
+    [
+      [
+        network,
+        partyId,
+        b.round ?? null,
+        b.effective_unlocked_qty ?? null,
+        b.effective_locked_qty ?? null,
+        b.total_holding_fees ?? null,
+        JSON.stringify(b),
+      ],
+    ],
+    ``,
+  );
+}
+
+/**
+ * Upserts the wallet's current transfer offers and flags every previously
+ * active offer that is no longer listed as inactive (accepted, rejected,
+ * withdrawn or expired). Resolves the number of new offers.
+ */
+export async function syncSelfTransferOffers(
+  db: Queryable,
+  network: string,
+  partyId: string,
+  offers: WalletContract[],
+): Promise<number> {
+  const inserted = await insertRows(
+    db,
+    `INSERT INTO self_transfer_offers
+       (contract_id, network, party_id, sender, receiver, amount, expires_at, raw)`,
+    lastByKey(offers, (o) => o.contract_id).map((o) => {
+      const p = o.payload;
+      return [
+        o.contract_id,
+        network,
+        partyId,
+        (p["sender"] as string | undefined) ?? null,
+        (p["receiver"] as string | undefined) ?? null,
+        (p["amount"] as { amount?: string } | undefined)?.amount ?? null,
+        (p["expiresAt"] as string | undefined) ?? null,
+        JSON.stringify(o),
+      ];
+    }),
+    `ON CONFLICT (contract_id, network) DO UPDATE SET
+       active       = TRUE,
+       last_seen_at = NOW(),
+       raw          = EXCLUDED.raw
+     RETURNING (xmax = 0) AS inserted`,
+  );
+  await db.query(
+    `UPDATE self_transfer_offers SET active = FALSE
+     WHERE network = $1 AND party_id = $2 AND active AND NOT (contract_id = ANY($3))`,
+    [network, partyId, offers.map((o) => o.contract_id)],
+  );
+  return inserted;
+}
+
+/**
+ * Stores one page of wallet history together with the traffic purchases in it.
+ * Both go in the caller's transaction, so an event is never stored without its
+ * purchase row — the walk stops at stored events and would not come back for it.
+ * Resolves how many events were new.
+ */
+export async function insertSelfTransactions(
+  db: Queryable,
+  network: string,
+  partyId: string,
+  events: WalletTxLogEntry[],
+): Promise<number> {
+  const rows = events.filter((e) => e.event_id);
+  const inserted = await insertRows(
+    db,
+    `INSERT INTO self_transactions
+       (event_id, network, party_id, transaction_type, choice, created_at, raw)`,
+    rows.map((e) => [
+      e.event_id,
+      network,
+      partyId,
+      e.transaction_type ?? null,
+      e.transaction_subtype?.choice ?? null,
+      e.date ?? null,
+      JSON.stringify(e),
+    ]),
+    `ON CONFLICT (event_id, network) DO NOTHING`,
+  );
+  await insertRows(
+    db,
+    `INSERT INTO self_traffic_purchases (event_id, network, party_id, cc_spent, created_at, raw)`,
+    rows.filter(isTrafficPurchase).map((e) => {
+      // The sender leg is our own party paying for the traffic (negative amount)
+      const spent = e.sender?.amount !== undefined ? Math.abs(parseFloat(e.sender.amount)) : null;
+      return [
+        e.event_id,
+        network,
+        partyId,
+        spent !== null && !isNaN(spent) ? spent : null,
+        e.date ?? null,
+        JSON.stringify(e),
+      ];
+    }),
+    `ON CONFLICT (event_id, network) DO NOTHING`,
+  );
+  return inserted;
+}
@@ -0,0 +1,137 @@
+import { query, queryOne, queryRows } from "./db.js";
+
+// What a poller reports about one run
+export interface JobOutcome {
+  fetched: number;
+  inserted: number;
+  // Last HTTP status seen from the upstream (0 = network error); null = not applicable
+  upstreamStatus: number | null;
+  error?: string;
+}
+
+export type JobStatus = "running" | "success" | "failed";
+
+export interface JobRun {
+  id: number;
+  job: string;
+  status: JobStatus;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  fetched: number | null;
+  inserted: number | null;
+  upstream_status: number | null;
+  error: string | null;
+}
+
+export interface JobSummary {
+  job: string;
+  last_run_at: string;
+  last_status: JobStatus;
+  last_error: string | null;
+  last_success_at: string | null;
+  // Failed runs since the last successful one
+  consecutive_failures: number;
+  runs_24h: number;
+  failures_24h: number;
+}
+
+export async function startJobRun(job: string, network: string): Promise<number> {
+  const row = await queryOne<{ id: string }>(
+    `INSERT INTO job_runs (job, network, status) VALUES ($1, $2, 'running') RETURNING id`,
+    [job, network],
+  );
+  return Number(row!.id);
+}
+
+export async function finishJobRun(id: number, outcome: JobOutcome): Promise<void> {
+  await query(
+    `UPDATE job_runs SET
+       status          = $2,
+       finished_at     = NOW(),
+       fetched         = $3,
+       inserted        = $4,
+       upstream_status = $5,
+       error           = $6
+     WHERE id = $1`,
+    [
+      id,
+      outcome.error ? "failed" : "success",
+      outcome.fetched,
+      outcome.inserted,
+      outcome.upstreamStatus,
+      outcome.error ?? null,
+    ],
+  );
+}
+
+export async function listJobs(network: string): Promise<JobSummary[]> {
+  return queryRows<JobSummary>(
+    `WITH last_success AS (
+       SELECT job, MAX(started_at) AS at
+       FROM job_runs WHERE network = $1 AND status = 'success'
+       GROUP BY job
+     ),
+     latest AS (
+       SELECT DISTINCT ON (job) job, started_at, status, error
+       FROM job_runs WHERE network = $1
+       ORDER BY job, started_at DESC
+     )
+     SELECT
+       l.job,
+       l.started_at AS last_run_at,
+       l.status     AS last_status,
+       l.error      AS last_error,
+       s.at         AS last_success_at,
+       (SELECT COUNT(*) FROM job_runs r
+        WHERE r.network = $1 AND r.job = l.job AND r.status = 'failed'
+          AND (s.at IS NULL OR r.started_at > s.at))::INTEGER AS consecutive_failures,
+       (SELECT COUNT(*) FROM job_runs r
+        WHERE r.network = $1 AND r.job = l.job
+          AND r.started_at > NOW() - INTERVAL '24 hours')::INTEGER AS runs_24h,
+       (SELECT COUNT(*) FROM job_runs r
+        WHERE r.network = $1 AND r.job = l.job AND r.status = 'failed'
+          AND r.started_at > NOW() - INTERVAL '24 hours')::INTEGER AS failures_24h
+     FROM latest l
+     LEFT JOIN last_success s ON s.job = l.job
+     ORDER BY l.job`,
+    [network],
+  );
+}
+
+export async function listJobRuns(job: string, network: string, limit: number): Promise<JobRun[]> {
+  return queryRows<JobRun>(
+    `SELECT id::INTEGER AS id, job, status, started_at, finished_at,
+            (EXTRACT(EPOCH FROM (finished_at - started_at)) * 1000)::INTEGER AS duration_ms,
+            fetched, inserted, upstream_status, error
+     FROM job_runs
+     WHERE job = $1 AND network = $2
+     ORDER BY started_at DESC
+     LIMIT $3`,
+    [job, network, limit],
+  );
+}
+
+export async function listPausedJobs(network: string): Promise<string[]> {
+  const rows = await queryRows<{ job: string }>(`SELECT job FROM job_pauses WHERE network = $1`, [
+    network,
+  ]);
+  return rows.map((r) => r.job);
+}
+
+// Both resolve false when the job already was in the requested state
+export async function pauseJob(job: string, network: string): Promise<boolean> {
+  const result = await query(
+    `INSERT INTO job_pauses (job, network) VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+    [job, network],
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function resumeJob(job: string, network: string): Promise<boolean> {
+  const result = await query(`DELETE FROM job_pauses WHERE job = $1 AND network = $2`, [
+    job,
+    network,
+  ]);
+  return (result.rowCount ?? 0) > 0;
+}
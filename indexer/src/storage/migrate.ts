@@ -0,0 +1,266 @@
+import { createHash } from "crypto";
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { PoolClient } from "pg";
+import { config } from "../config.js";
+import { checkConnection, pool } from "./db.js";
+
+// Versioned schema migrations. Each file in migrations/ is named
+// `<number>_<name>.sql`, applied once in number order inside its own
+// transaction, and recorded in schema_migrations with a checksum of its text.
+// Released migrations are never edited — a change to the schema is a new file.
+
+const MIGRATIONS_DIR = join(__dirname, "migrations");
+const FILE_RE = /^(\d{3,})_[\w-]+\.sql$/;
+
+export interface Migration {
+  // File name without .sql, e.g. "001_initial"
+  version: string;
+  number: number;
+  sql: string;
+  checksum: string;
+}
+
+// changed: applied, but the file no longer matches what was run;
+// missing: recorded as applied, but no file has that version
+export type MigrationState = "applied" | "pending" | "changed" | "missing";
+
+export interface MigrationStatus {
+  version: string;
+  state: MigrationState;
+  applied_at: string | null;
+}
+
+interface AppliedRow {
+  version: string;
+  applied_at: Date;
+  // Null for versions recorded before checksums were
+  checksum: string | null;
+}
+
+export function loadMigrations(dir = MIGRATIONS_DIR): Migration[] {
+  const migrations: Migration[] = [];
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith(".sql")) continue;
+    const match = FILE_RE.exec(file);
+    if (!match) throw new Error(`Migration file name not understood: ${file}`);
+    const sql = readFileSync(join(dir, file), "utf8");
+    migrations.push({
+      version: file.slice(0, -".sql".length),
+      number: parseInt(match[1], 10),
+      sql,
+      checksum: createHash("sha256").update(sql).digest("hex"),
+    });
+  }
+  migrations.sort((a, b) => a.number - b.number);
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].number === migrations[i - 1].number) {
+      throw new Error(
+        `Two migrations share number ${migrations[i].number}: ` +
+          `${migrations[i - 1].version}, ${migrations[i].version}`,
+      );
+    }
+  }
+  return migrations;
+}
+
+// Read-only: a database that was never migrated has no applied versions. The
+// checksum column is read through to_jsonb because databases set up before this
+// runner do not have it until their next `up`.
+async function readApplied(client: PoolClient): Promise<Map<string, AppliedRow>> {
+  const exists = await client.query<{ found: boolean }>(
+    `SELECT to_regclass('schema_migrations') IS NOT NULL AS found`,
+  );
+  if (!exists.rows[0].found) return new Map();
+  const result = await client.query<AppliedRow>(
+    `SELECT version, applied_at, to_jsonb(m)->>'checksum' AS checksum
+     FROM schema_migrations m`,
+  );
+  return new Map(result.rows.map((r) => [r.version, r]));
+}
+
+function statusOf(migrations: Migration[], applied: Map<string, AppliedRow>): MigrationStatus[] {
+  const statuses: MigrationStatus[] = migrations.map((m) => {
+    const row = applied.get(m.version);
+    if (!row) return { version: m.version, state: "pending", applied_at: null };
+    return {
+      version: m.version,
+      state: row.checksum !== null && row.checksum !== m.checksum ? "changed" : "applied",
+      applied_at: row.applied_at.toISOString(),
+    };
+  });
+  const known = new Set(migrations.map((m) => m.version));
+  for (const row of applied.values()) {
+    if (known.has(row.version)) continue;
+    statuses.push({
+      version: row.version,
+      state: "missing",
+      applied_at: row.applied_at.toISOString(),
+    });
+  }
+  return statuses;
+}
+
+export async function migrationStatus(
+  migrations: Migration[] = loadMigrations(),
+): Promise<MigrationStatus[]> {
+  const client = await pool.connect();
+  try {
+    return statusOf(migrations, await readApplied(client));
+  } finally {
+    client.release();
+  }
+}
+
+export interface ApplyOptions {
+  // Run the pending migrations in one transaction and roll it back
+  dryRun?: boolean;
+}
+
+/**
+ * Applies every pending migration, in order. Holds an advisory lock on a
+ * dedicated connection throughout, so replicas booting together migrate one at
+ * a time and the later ones find nothing left to do. Refuses to run while an
+ * applied migration's file has changed. Resolves the versions applied (or, on a
+ * dry run, the ones that would be).
+ */
+export async function applyMigrations(
+  opts: ApplyOptions = {},
+  migrations: Migration[] = loadMigrations(),
+): Promise<string[]> {
+  const client = await pool.connect();
+  try {
+    await client.query(`SELECT pg_advisory_lock($1)`, [config.db.migrationLockId]);
+    try {
+      return await applyLocked(client, migrations, opts.dryRun ?? false);
+    } finally {
+      await client.query(`SELECT pg_advisory_unlock($1)`, [config.db.migrationLockId]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function applyLocked(
+  client: PoolClient,
+  migrations: Migration[],
+  dryRun: boolean,
+): Promise<string[]> {
+  if (!dryRun) {
+    await client.query(
+      `CREATE TABLE IF NOT EXISTS schema_migrations (
+         version       TEXT        PRIMARY KEY,
+         applied_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+       );
+       ALTER TABLE schema_migrations ADD COLUMN IF NOT EXISTS checksum TEXT;`,
+    );
+  }
+
+  const applied = await readApplied(client);
+  const statuses = statusOf(migrations, applied);
+  const changed = statuses.filter((s) => s.state === "changed").map((s) => s.version);
+  if (changed.length) {
+    throw new Error(`Applied migrations were edited since: ${changed.join(", ")}`);
+  }
+  for (const s of statuses) {
+    if (s.state === "missing") console.warn(`[migrate] ${s.version} is applied but has no file`);
+  }
+
+  const pending = migrations.filter((m) => !applied.has(m.version));
+  if (dryRun) {
+    // One transaction for all of them: later migrations may depend on earlier ones
+    await client.query("BEGIN");
+    try {
+      for (const m of pending) {
+        await client.query(m.sql);
+        console.log(`[migrate] ${m.version} ok (dry run)`);
+      }
+    } finally {
+      await client.query("ROLLBACK");
+    }
+    return pending.map((m) => m.version);
+  }
+
+  // Versions recorded before checksums were adopt the file's current one
+  for (const m of migrations) {
+    if (applied.get(m.version)?.checksum === null) {
+      await client.query(`UPDATE schema_migrations SET checksum = $2 WHERE version = $1`, [
+        m.version,
+        m.checksum,
+      ]);
+    }
+  }
+
+  for (const m of pending) {
+    const startedAt = Date.now();
+    await client.query("BEGIN");
+    try {
+      await client.query(m.sql);
+      await client.query(`INSERT INTO schema_migrations (version, checksum) VALUES ($1, $2)`, [
+        m.version,
+        m.checksum,
+      ]);
+      await client.query("COMMIT");
+    } catch (err) {
+      await client.query("ROLLBACK");
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new Error(`Migration ${m.version} failed: ${msg}`);
+    }
+    console.log(`[migrate] applied ${m.version} in ${Date.now() - startedAt}ms`);
+  }
+  return pending.map((m) => m.version);
+}
+
+// ── CLI ──────────────────────────────────────────────────────────────────────
+
+type Command = "status" | "up";
+
+function parseArgs(argv: string[]): { command: Command; dryRun: boolean } {
+  let command: Command = "up";
+  let dryRun = false;
+  for (const arg of argv) {
+    switch (arg) {
+      case "status":
+      case "up":
+        command = arg;
+        break;
+      case "--dry-run":
+        dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg} (usage: migrate [status|up] [--dry-run])`);
+    }
+  }
+  return { command, dryRun };
+}
+
+async function main(): Promise<void> {
+  const { command, dryRun } = parseArgs(process.argv.slice(2));
+
+  if (!(await checkConnection())) {
+    console.error("[migrate] database not reachable — exiting");
+    process.exit(1);
+  }
+
+  let ok = true;
+  if (command === "status") {
+    for (const s of await migrationStatus()) {
+      console.log(`${s.state.padEnd(8)} ${s.version.padEnd(32)} ${s.applied_at ?? ""}`);
+      if (s.state === "changed") ok = false;
+    }
+  } else {
+    const versions = await applyMigrations({ dryRun });
+    if (!versions.length) console.log("[migrate] schema is up to date");
+    else if (dryRun) console.log(`[migrate] dry run ok, rolled back: ${versions.join(", ")}`);
+  }
+
+  await pool.end();
+  process.exit(ok ? 0 : 1);
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error("[migrate] fatal error", err);
+    process.exit(1);
+  });
+}
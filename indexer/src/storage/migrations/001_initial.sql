@@ -1,5 +1,5 @@
--- Canton Network Indexer — PostgreSQL Schema
--- Run: psql -U canton -d canton_indexer -f schema.sql
+-- 001 — Canton Network Indexer, initial schema
+-- Applied by storage/migrate.ts; never edit once released, add a migration instead.
 
 -- ── Extensions ───────────────────────────────────────────────────────────────
 
@@ -215,17 +215,6 @@ CREATE TABLE IF NOT EXISTS preapprovals (
   PRIMARY KEY (id, network)
 );
 
--- ── Schema Version Tracking ───────────────────────────────────────────────────
-
-CREATE TABLE IF NOT EXISTS schema_migrations (
-  version       TEXT        PRIMARY KEY,
-  applied_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
-);
-
-INSERT INTO schema_migrations (version)
-VALUES ('001_initial')
-ON CONFLICT (version) DO NOTHING;
-
 -- ── API Notes ─────────────────────────────────────────────────────────────────
 -- Verified against live Lighthouse API (testnet/mainnet, 2026-03-02):
 --   - /api/prices/latest → 404 (does not exist); price is in /api/stats as cc_price
@@ -0,0 +1,240 @@
+-- 002 — Everything added to the schema between the initial release and the
+-- versioned runner. Databases set up by those builds already have part or all
+-- of it (schema.sql was re-run on every boot), so every statement here is
+-- idempotent.
+
+-- ── Validators ────────────────────────────────────────────────────────────────
+
+-- Validators are keyed by (id, network). With the id alone, the networks of a
+-- multi-network process upserted into the same row and overwrote each other's
+-- state. Snapshots reference their own network's validator. Skipped when the
+-- key already includes the network.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'validator_snapshots_validator_fkey'
+  ) THEN
+    ALTER TABLE validator_snapshots DROP CONSTRAINT validator_snapshots_validator_id_fkey;
+    ALTER TABLE validators DROP CONSTRAINT validators_pkey;
+    ALTER TABLE validators ADD PRIMARY KEY (id, network);
+
+    -- A validator seen on two networks kept a single row under whichever network
+    -- wrote last; the other network gets its row back from its latest snapshot
+    INSERT INTO validators (id, network, is_active, first_seen_at, last_seen_at, raw)
+    SELECT DISTINCT ON (validator_id, network)
+           validator_id, network, is_active, captured_at, captured_at, raw
+    FROM validator_snapshots
+    ORDER BY validator_id, network, captured_at DESC
+    ON CONFLICT (id, network) DO NOTHING;
+
+    ALTER TABLE validator_snapshots
+      ADD CONSTRAINT validator_snapshots_validator_fkey
+      FOREIGN KEY (validator_id, network) REFERENCES validators (id, network) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- ── Validator Uptime Rollups ──────────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS idx_validator_snapshots_network_captured
+  ON validator_snapshots (network, captured_at);
+
+-- Snapshots older than RETENTION_RAW_DAYS, counted per hour; hours older than
+-- RETENTION_HOURLY_DAYS are merged into days. resolution: hour | day
+CREATE TABLE IF NOT EXISTS validator_uptime_rollups (
+  network         TEXT        NOT NULL,
+  validator_id    TEXT        NOT NULL,
+  resolution      TEXT        NOT NULL,
+  bucket          TIMESTAMPTZ NOT NULL,
+  samples         INTEGER     NOT NULL,
+  active_samples  INTEGER     NOT NULL,
+  PRIMARY KEY (network, validator_id, resolution, bucket)
+);
+
+CREATE INDEX IF NOT EXISTS idx_validator_uptime_rollups_validator_bucket
+  ON validator_uptime_rollups (validator_id, bucket DESC);
+
+-- ── Price Rollups ─────────────────────────────────────────────────────────────
+
+-- Same scheme as validator_uptime_rollups; the average is sum_usd / samples so
+-- buckets can be merged
+CREATE TABLE IF NOT EXISTS price_rollups (
+  network         TEXT           NOT NULL,
+  resolution      TEXT           NOT NULL,
+  bucket          TIMESTAMPTZ    NOT NULL,
+  samples         INTEGER        NOT NULL,
+  min_usd         NUMERIC(20, 8) NOT NULL,
+  max_usd         NUMERIC(20, 8) NOT NULL,
+  sum_usd         NUMERIC        NOT NULL,
+  PRIMARY KEY (network, resolution, bucket)
+);
+
+-- ── Own Validator (local Validator API) ───────────────────────────────────────
+
+-- Wallet state of the party behind VALIDATOR_API_URL, polled only when
+-- VALIDATOR_API_ENABLED. Balances are append-only snapshots.
+CREATE TABLE IF NOT EXISTS self_balances (
+  id                 BIGSERIAL   PRIMARY KEY,
+  network            TEXT        NOT NULL,
+  party_id           TEXT        NOT NULL,
+  round              BIGINT,
+  unlocked_qty       NUMERIC(30, 10),
+  locked_qty         NUMERIC(30, 10),
+  holding_fees       NUMERIC(30, 10),
+  captured_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  raw                JSONB       NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_self_balances_network_captured
+  ON self_balances (network, captured_at DESC);
+
+-- Offers stay after they leave the wallet, with active = FALSE
+CREATE TABLE IF NOT EXISTS self_transfer_offers (
+  contract_id   TEXT        NOT NULL,
+  network       TEXT        NOT NULL,
+  party_id      TEXT        NOT NULL,
+  sender        TEXT,
+  receiver      TEXT,
+  amount        NUMERIC(30, 10),
+  expires_at    TIMESTAMPTZ,
+  active        BOOLEAN     NOT NULL DEFAULT TRUE,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  raw           JSONB       NOT NULL,
+  PRIMARY KEY (contract_id, network)
+);
+
+CREATE TABLE IF NOT EXISTS self_transactions (
+  event_id          TEXT        NOT NULL,
+  network           TEXT        NOT NULL,
+  party_id          TEXT        NOT NULL,
+  transaction_type  TEXT,                  -- transfer | balance_change | notification | unknown
+  choice            TEXT,                  -- transaction_subtype.choice
+  created_at        TIMESTAMPTZ,
+  captured_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  raw               JSONB       NOT NULL,
+  PRIMARY KEY (event_id, network)
+);
+
+CREATE INDEX IF NOT EXISTS idx_self_transactions_network_created
+  ON self_transactions (network, created_at DESC NULLS LAST);
+
+-- Traffic purchases are the BuyMemberTraffic entries of the wallet history
+CREATE TABLE IF NOT EXISTS self_traffic_purchases (
+  event_id      TEXT        NOT NULL,
+  network       TEXT        NOT NULL,
+  party_id      TEXT        NOT NULL,
+  cc_spent      NUMERIC(30, 10),
+  created_at    TIMESTAMPTZ,
+  captured_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  raw           JSONB       NOT NULL,
+  PRIMARY KEY (event_id, network)
+);
+
+-- ── Job Runs ──────────────────────────────────────────────────────────────────
+
+-- One row per scheduler poller run. A row stuck in 'running' means the process
+-- died mid-run.
+CREATE TABLE IF NOT EXISTS job_runs (
+  id              BIGSERIAL   PRIMARY KEY,
+  job             TEXT        NOT NULL,
+  network         TEXT        NOT NULL,
+  status          TEXT        NOT NULL,   -- running | success | failed
+  started_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at     TIMESTAMPTZ,
+  fetched         INTEGER,
+  inserted        INTEGER,
+  upstream_status INTEGER,                -- last upstream HTTP status, 0 = network error
+  error           TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_network_started
+  ON job_runs (job, network, started_at DESC);
+
+-- Jobs paused through the admin API. Kept in the database so whichever replica
+-- is the scheduler leader honours them.
+CREATE TABLE IF NOT EXISTS job_pauses (
+  job       TEXT        NOT NULL,
+  network   TEXT        NOT NULL,
+  paused_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (job, network)
+);
+
+-- ── Data Gaps ─────────────────────────────────────────────────────────────────
+
+-- History the consistency job could not repair. kind: round (missing from the
+-- rounds sequence; attempts = failed refetches) | round_transactions (fewer
+-- transactions linked to the round than its total_tx).
+CREATE TABLE IF NOT EXISTS data_gaps (
+  network         TEXT        NOT NULL,
+  kind            TEXT        NOT NULL,
+  round           BIGINT      NOT NULL,
+  expected        INTEGER,
+  found           INTEGER,
+  attempts        INTEGER     NOT NULL DEFAULT 0,
+  last_error      TEXT,
+  first_seen_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (network, kind, round)
+);
+
+-- ── Schema Drift ──────────────────────────────────────────────────────────────
+
+-- Differences between upstream payloads and the typed response interfaces.
+-- One row per (endpoint, path, kind); occurrences counts the responses that
+-- showed it. kind: missing_field | type_changed | new_field.
+CREATE TABLE IF NOT EXISTS schema_drift_events (
+  id            BIGSERIAL   PRIMARY KEY,
+  network       TEXT        NOT NULL,
+  source        TEXT        NOT NULL,
+  endpoint      TEXT        NOT NULL,
+  schema_name   TEXT        NOT NULL,
+  path          TEXT        NOT NULL,
+  kind          TEXT        NOT NULL,
+  expected      TEXT,
+  actual        TEXT,
+  sample        JSONB,
+  occurrences   BIGINT      NOT NULL DEFAULT 1,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (network, source, endpoint, path, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_schema_drift_network_seen
+  ON schema_drift_events (network, last_seen_at DESC);
+
+-- ── Source Markers ────────────────────────────────────────────────────────────
+
+-- Which upstream wrote the row: 'lighthouse' or 'scan'. With SCAN_API_PREFERRED,
+-- Scan rows overwrite Lighthouse rows; Lighthouse never overwrites Scan rows.
+ALTER TABLE rounds       ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'lighthouse';
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'lighthouse';
+ALTER TABLE cns_records  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'lighthouse';
+ALTER TABLE contracts    ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'lighthouse';
+
+-- ── Contracts ────────────────────────────────────────────────────────────────
+
+-- Lighthouse lists active contracts only. Every complete walk of the list marks
+-- the contracts it no longer returned active = FALSE; they reappear as active if
+-- listed again.
+ALTER TABLE contracts ADD COLUMN IF NOT EXISTS active       BOOLEAN     NOT NULL DEFAULT TRUE;
+ALTER TABLE contracts ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_contracts_network_active ON contracts (network, active);
+
+-- ── Sync Checkpoints ──────────────────────────────────────────────────────────
+
+-- One row per ingestion stream. last_seq is the newest upstream sequence key
+-- (transaction/transfer id, round number) that has been ingested without gaps.
+-- resume_cursor/pending_seq are set while a walk is interrupted part-way.
+CREATE TABLE IF NOT EXISTS sync_checkpoints (
+  job            TEXT        NOT NULL,
+  network        TEXT        NOT NULL,
+  last_seq       BIGINT,
+  last_round     BIGINT,
+  resume_cursor  TEXT,
+  pending_seq    BIGINT,
+  last_cursor    TEXT,         -- position of forward-walking streams (Scan updates)
+  last_synced_at TIMESTAMPTZ,
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (job, network)
+);
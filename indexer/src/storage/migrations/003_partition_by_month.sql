@@ -0,0 +1,110 @@
+-- 003 — Monthly range partitions for the high-volume tables: transactions and
+-- transfers by created_at, validator_snapshots by captured_at.
+--
+-- Each table is rebuilt as a partitioned parent with a DEFAULT partition and
+-- every existing row is copied into that default. The `partitions` job then
+-- splits the default into one partition per month (see storage/partitions.ts),
+-- a month at a time, and keeps creating the months ahead. This copies the three
+-- tables once — on a large database, run `npm run migrate` with the indexer
+-- stopped rather than on boot.
+--
+-- The partition key has to be part of every unique constraint, so it joins the
+-- primary keys; created_at becomes NOT NULL for that reason. Rows stored without
+-- an upstream timestamp keep their captured_at instead.
+
+-- ── Transactions ──────────────────────────────────────────────────────────────
+
+ALTER TABLE transactions RENAME TO transactions_heap;
+ALTER INDEX transactions_pkey RENAME TO transactions_heap_pkey;
+
+CREATE TABLE transactions (
+  update_id     TEXT        NOT NULL,
+  network       TEXT        NOT NULL,
+  captured_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at    TIMESTAMPTZ NOT NULL,   -- maps to record_time from Lighthouse API
+  round         BIGINT,
+  raw           JSONB       NOT NULL,
+  source        TEXT        NOT NULL DEFAULT 'lighthouse',
+  PRIMARY KEY (update_id, network, created_at)
+) PARTITION BY RANGE (created_at);
+
+CREATE TABLE transactions_default PARTITION OF transactions DEFAULT;
+
+INSERT INTO transactions (update_id, network, captured_at, created_at, round, raw, source)
+SELECT update_id, network, captured_at, COALESCE(created_at, captured_at), round, raw, source
+FROM transactions_heap;
+
+DROP TABLE transactions_heap;
+
+CREATE INDEX idx_transactions_network_created
+  ON transactions (network, created_at DESC NULLS LAST);
+CREATE INDEX idx_transactions_round
+  ON transactions (network, round DESC NULLS LAST);
+CREATE INDEX idx_transactions_raw_gin
+  ON transactions USING gin (raw);
+
+-- ── Transfers ─────────────────────────────────────────────────────────────────
+
+ALTER TABLE transfers RENAME TO transfers_heap;
+ALTER INDEX transfers_pkey RENAME TO transfers_heap_pkey;
+
+CREATE TABLE transfers (
+  id            TEXT        NOT NULL,  -- numeric id from Lighthouse, stored as TEXT
+  network       TEXT        NOT NULL,
+  captured_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at    TIMESTAMPTZ NOT NULL,
+  sender        TEXT,                  -- sender_address from Lighthouse
+  receiver      TEXT,                  -- receiver_address from Lighthouse
+  amount        NUMERIC(30, 10),
+  round         BIGINT,
+  raw           JSONB       NOT NULL,
+  PRIMARY KEY (id, network, created_at)
+) PARTITION BY RANGE (created_at);
+
+CREATE TABLE transfers_default PARTITION OF transfers DEFAULT;
+
+INSERT INTO transfers
+  (id, network, captured_at, created_at, sender, receiver, amount, round, raw)
+SELECT id, network, captured_at, COALESCE(created_at, captured_at), sender, receiver, amount,
+       round, raw
+FROM transfers_heap;
+
+DROP TABLE transfers_heap;
+
+CREATE INDEX idx_transfers_network_created
+  ON transfers (network, created_at DESC NULLS LAST);
+CREATE INDEX idx_transfers_sender   ON transfers (sender);
+CREATE INDEX idx_transfers_receiver ON transfers (receiver);
+
+-- ── Validator Uptime Snapshots ────────────────────────────────────────────────
+
+ALTER TABLE validator_snapshots RENAME TO validator_snapshots_heap;
+ALTER INDEX validator_snapshots_pkey RENAME TO validator_snapshots_heap_pkey;
+
+-- Keeps the existing id sequence, so ids stay unique across the rebuild
+CREATE TABLE validator_snapshots (
+  id            BIGINT      NOT NULL DEFAULT nextval('validator_snapshots_id_seq'),
+  validator_id  TEXT        NOT NULL,
+  network       TEXT        NOT NULL,
+  captured_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  is_active     BOOLEAN,
+  raw           JSONB       NOT NULL,
+  PRIMARY KEY (id, captured_at),
+  CONSTRAINT validator_snapshots_validator_fkey
+    FOREIGN KEY (validator_id, network) REFERENCES validators (id, network) ON DELETE CASCADE
+) PARTITION BY RANGE (captured_at);
+
+ALTER SEQUENCE validator_snapshots_id_seq OWNED BY validator_snapshots.id;
+
+CREATE TABLE validator_snapshots_default PARTITION OF validator_snapshots DEFAULT;
+
+INSERT INTO validator_snapshots (id, validator_id, network, captured_at, is_active, raw)
+SELECT id, validator_id, network, captured_at, is_active, raw
+FROM validator_snapshots_heap;
+
+DROP TABLE validator_snapshots_heap;
+
+CREATE INDEX idx_validator_snapshots_validator_captured
+  ON validator_snapshots (validator_id, captured_at DESC);
+CREATE INDEX idx_validator_snapshots_network_captured
+  ON validator_snapshots (network, captured_at);
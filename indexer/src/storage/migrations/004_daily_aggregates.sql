@@ -0,0 +1,53 @@
+-- 004 — Daily rollups of network activity and rewards, kept by the `analytics`
+-- job (see storage/aggregates.ts). Days are UTC. A day is recomputed whenever
+-- rows for it are captured, so backfilled history is picked up as well.
+
+-- ── Daily Network Activity ────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS daily_network_activity (
+  network            TEXT        NOT NULL,
+  day                DATE        NOT NULL,
+  tx_count           INTEGER,
+  transfer_count     INTEGER,
+  transfer_volume    NUMERIC(30, 10),
+  unique_senders     INTEGER,
+  unique_receivers   INTEGER,
+  -- Rewards of the tracked parties only (validators and REWARDS_PARTIES)
+  reward_count       INTEGER,
+  app_rewards        NUMERIC(30, 10),
+  validator_rewards  NUMERIC(30, 10),
+  sv_rewards         NUMERIC(30, 10),
+  active_validators  INTEGER,
+  -- Lighthouse's own count from stats.history_tx_14d, kept past its 14 days
+  upstream_tx_count  INTEGER,
+  -- Null while only upstream_tx_count is known
+  refreshed_at       TIMESTAMPTZ,
+  PRIMARY KEY (network, day)
+);
+
+-- ── Daily Party Rewards ───────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS daily_party_rewards (
+  network            TEXT        NOT NULL,
+  day                DATE        NOT NULL,
+  party_id           TEXT        NOT NULL,
+  reward_count       INTEGER     NOT NULL,
+  app_rewards        NUMERIC(30, 10) NOT NULL,
+  validator_rewards  NUMERIC(30, 10) NOT NULL,
+  sv_rewards         NUMERIC(30, 10) NOT NULL,
+  last_reward_at     TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (network, day, party_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_party_rewards_party
+  ON daily_party_rewards (party_id, network, day DESC);
+
+-- ── Change Tracking ───────────────────────────────────────────────────────────
+
+-- The job finds the days to recompute from rows captured since its last run
+CREATE INDEX IF NOT EXISTS idx_transactions_network_captured
+  ON transactions (network, captured_at);
+CREATE INDEX IF NOT EXISTS idx_transfers_network_captured
+  ON transfers (network, captured_at);
+CREATE INDEX IF NOT EXISTS idx_rewards_network_captured
+  ON rewards (network, captured_at);
@@ -0,0 +1,212 @@
+import { pool, Queryable, queryRows, withTransaction } from "./db.js";
+
+// Monthly range partitions (migration 003). Each table has one partition per
+// UTC month, named `<table>_<yyyy>_<mm>`, plus `<table>_default` for rows no
+// month partition covers yet — history loaded by a backfill, or every row right
+// after the migration. Partitions are shared by all networks.
+
+export const PARTITIONED_TABLES = ["transactions", "transfers", "validator_snapshots"] as const;
+
+export type PartitionedTable = (typeof PARTITIONED_TABLES)[number];
+
+const PARTITION_KEY: Record<PartitionedTable, string> = {
+  transactions: "created_at",
+  transfers: "created_at",
+  validator_snapshots: "captured_at",
+};
+
+export interface PartitionInfo {
+  table: PartitionedTable;
+  partition: string;
+  // Null for the default partition
+  month: string | null;
+  // From pg_class, only as fresh as the last ANALYZE
+  rows_estimate: number;
+  bytes: number;
+}
+
+export interface PartitionResult {
+  created: number;
+  // Rows moved out of the default partitions
+  moved: number;
+}
+
+const MONTH_RE = /^(\d{4})-(\d{2})$/;
+
+function monthStart(year: number, monthIndex: number): Date {
+  return new Date(Date.UTC(year, monthIndex, 1));
+}
+
+// "2026-03" for the month starting at `month`
+export function monthKey(month: Date): string {
+  return month.toISOString().slice(0, 7);
+}
+
+// Null unless `value` is a "YYYY-MM" month
+export function parseMonth(value: string): Date | null {
+  const match = MONTH_RE.exec(value);
+  if (!match) return null;
+  const m = parseInt(match[2], 10);
+  return m >= 1 && m <= 12 ? monthStart(parseInt(match[1], 10), m - 1) : null;
+}
+
+export function partitionName(table: PartitionedTable, month: Date): string {
+  return `${table}_${monthKey(month).replace("-", "_")}`;
+}
+
+async function partitionExists(db: Queryable, name: string): Promise<boolean> {
+  const result = await db.query<{ found: boolean }>(`SELECT to_regclass($1) IS NOT NULL AS found`, [
+    name,
+  ]);
+  return result.rows[0].found;
+}
+
+/**
+ * Creates the partition for one month, moving the month's rows out of the
+ * default partition into it first — a partition cannot be attached while the
+ * default still holds rows in its range. The default is locked throughout, so
+ * no row can land there in between. Resolves null when the partition exists.
+ */
+async function createPartition(
+  table: PartitionedTable,
+  month: Date,
+): Promise<{ moved: number } | null> {
+  const name = partitionName(table, month);
+  const key = PARTITION_KEY[table];
+  const from = month.toISOString();
+  const to = monthStart(month.getUTCFullYear(), month.getUTCMonth() + 1).toISOString();
+
+  // Checked again under the lock, but most runs only find existing months and
+  // should not block readers of the default partition for them
+  if (await partitionExists(pool, name)) return null;
+  return withTransaction(async (db) => {
+    await db.query(`LOCK TABLE ${table}_default IN ACCESS EXCLUSIVE MODE`);
+    if (await partitionExists(db, name)) return null;
+
+    await db.query(`CREATE TABLE ${name} (LIKE ${table} INCLUDING DEFAULTS)`);
+    const moved = await db.query(
+      `WITH moved AS (
+         DELETE FROM ${table}_default WHERE ${key} >= $1 AND ${key} < $2
+         RETURNING *
+       )
+       INSERT INTO ${name} SELECT * FROM moved`,
+      [from, to],
+    );
+    // Indexes, the primary key and foreign keys are added from the parent
+    await db.query(
+      `ALTER TABLE ${table} ATTACH PARTITION ${name} FOR VALUES FROM ('${from}') TO ('${to}')`,
+    );
+    return { moved: moved.rowCount ?? 0 };
+  });
+}
+
+// Months with rows waiting in the default partition, oldest first
+async function monthsInDefault(table: PartitionedTable): Promise<Date[]> {
+  const rows = await queryRows<{ month: Date }>(
+    `SELECT DISTINCT date_trunc('month', ${PARTITION_KEY[table]}, 'UTC') AS month
+     FROM ${table}_default
+     ORDER BY month`,
+  );
+  return rows.map((r) => r.month);
+}
+
+/**
+ * Ensures a partition for the current month and `monthsAhead` months after it,
+ * and for every month that has rows in a default partition. Safe to re-run and
+ * to run from several replicas at once.
+ */
+export async function maintainPartitions(
+  monthsAhead: number,
+  now = new Date(),
+): Promise<PartitionResult> {
+  const result: PartitionResult = { created: 0, moved: 0 };
+  for (const table of PARTITIONED_TABLES) {
+    const months = await monthsInDefault(table);
+    for (let i = 0; i <= monthsAhead; i++) {
+      months.push(monthStart(now.getUTCFullYear(), now.getUTCMonth() + i));
+    }
+    for (const month of months) {
+      const created = await createPartition(table, month);
+      if (!created) continue;
+      result.created++;
+      result.moved += created.moved;
+      console.log(
+        `[partitions] created ${partitionName(table, month)}` +
+          (created.moved ? `, moved ${created.moved} rows from ${table}_default` : ""),
+      );
+    }
+  }
+  return result;
+}
+
+export async function listPartitions(): Promise<PartitionInfo[]> {
+  const rows = await queryRows<{
+    table: PartitionedTable;
+    partition: string;
+    rows_estimate: string;
+    bytes: string;
+  }>(
+    `SELECT parent.relname AS table, child.relname AS partition,
+            GREATEST(child.reltuples, 0)::BIGINT AS rows_estimate,
+            pg_total_relation_size(child.oid) AS bytes
+     FROM pg_inherits i
+     JOIN pg_class parent ON parent.oid = i.inhparent
+     JOIN pg_class child  ON child.oid = i.inhrelid
+     WHERE parent.relname = ANY($1)
+     ORDER BY parent.relname, child.relname`,
+    [PARTITIONED_TABLES],
+  );
+  return rows.map((r) => {
+    const suffix = r.partition.slice(r.table.length + 1);
+    return {
+      ...r,
+      month: suffix === "default" ? null : suffix.replace("_", "-"),
+      rows_estimate: Number(r.rows_estimate),
+      bytes: Number(r.bytes),
+    };
+  });
+}
+
+// Detached months are renamed, so the month's own name is free again: rows that
+// arrive for it later get a new partition instead of staying in the default
+function detachedName(table: PartitionedTable, month: Date): string {
+  return `${partitionName(table, month)}_detached`;
+}
+
+// An earlier detached copy of the month is still there under the same name
+export class DetachedPartitionExistsError extends Error {
+  constructor(readonly archive: string) {
+    super(`${archive} already exists — archive and drop it first`);
+    this.name = "DetachedPartitionExistsError";
+  }
+}
+
+/**
+ * Detaches one month from its table. The partition is left behind as a plain
+ * table named `<table>_<yyyy>_<mm>_detached` — dump it to the archive, then drop
+ * it. Nothing is rewritten. Resolves the table's new name, or null when the
+ * month has no attached partition; rejects with DetachedPartitionExistsError
+ * while an earlier detached copy of the month is still there.
+ */
+export async function detachPartition(
+  table: PartitionedTable,
+  month: Date,
+): Promise<string | null> {
+  const name = partitionName(table, month);
+  const archive = detachedName(table, month);
+  return withTransaction(async (db) => {
+    const attached = await db.query(
+      `SELECT 1 FROM pg_inherits
+       WHERE inhparent = $1::regclass AND inhrelid = to_regclass($2)`,
+      [table, name],
+    );
+    if (!attached.rows.length) return null;
+    if (await partitionExists(db, archive)) {
+      throw new DetachedPartitionExistsError(archive);
+    }
+    await db.query(`ALTER TABLE ${table} DETACH PARTITION ${name}`);
+    await db.query(`ALTER TABLE ${name} RENAME TO ${archive}`);
+    console.log(`[partitions] detached ${name} as ${archive}`);
+    return archive;
+  });
+}
@@ -0,0 +1,36 @@
+import { queryRows } from "../db.js";
+import { ListOptions, Where } from "./where.js";
+
+// One row of daily_network_activity. The computed columns are null for days only
+// Lighthouse's history_tx_14d has reported so far.
+export interface DailyActivity {
+  // "2026-03-02", UTC
+  day: string;
+  tx_count: number | null;
+  upstream_tx_count: number | null;
+  transfer_count: number | null;
+  transfer_volume: string | null;
+  unique_senders: number | null;
+  unique_receivers: number | null;
+  reward_count: number | null;
+  app_rewards: string | null;
+  validator_rewards: string | null;
+  sv_rewards: string | null;
+  active_validators: number | null;
+  refreshed_at: string | null;
+}
+
+// Newest day first; from/to are matched by day
+export async function daily(opts: ListOptions): Promise<DailyActivity[]> {
+  const where = new Where().eq("network", opts.network).days("day", opts);
+  const limit = where.param(opts.limit);
+  return queryRows<DailyActivity>(
+    `SELECT day::TEXT AS day, tx_count, upstream_tx_count, transfer_count, transfer_volume,
+            unique_senders, unique_receivers, reward_count, app_rewards, validator_rewards,
+            sv_rewards, active_validators, refreshed_at
+     FROM daily_network_activity ${where}
+     ORDER BY day DESC
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
@@ -0,0 +1,53 @@
+import { queryOne, queryRows } from "../db.js";
+import { Where } from "./where.js";
+
+export interface Contract {
+  contract_id: string;
+  template_id: string | null;
+  source: string;
+  // False once the contract is gone from Lighthouse's list
+  active: boolean;
+  captured_at: string;
+  last_seen_at: string;
+  raw: unknown;
+}
+
+export interface ContractListOptions {
+  network: string;
+  limit: number;
+  templateId?: string;
+  // Any string value equal to the party, at any depth of the payload
+  party?: string;
+}
+
+// Active contracts, most recently captured first
+export async function list(opts: ContractListOptions): Promise<Contract[]> {
+  const where = new Where()
+    .eq("network", opts.network)
+    .and("active")
+    .eq("template_id", opts.templateId);
+  if (opts.party !== undefined) {
+    where.and(
+      "jsonb_path_exists(raw->'payload', ?::JSONPATH, jsonb_build_object('party', ?::TEXT))",
+      "$.** ? (@ == $party)",
+      opts.party,
+    );
+  }
+  const limit = where.param(opts.limit);
+  return queryRows<Contract>(
+    `SELECT contract_id, template_id, source, active, captured_at, last_seen_at, raw
+     FROM contracts ${where}
+     ORDER BY captured_at DESC
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
+
+// Archived contracts too
+export async function get(network: string, contractId: string): Promise<Contract | null> {
+  return queryOne<Contract>(
+    `SELECT contract_id, template_id, source, active, captured_at, last_seen_at, raw
+     FROM contracts WHERE contract_id = $1 AND network = $2`,
+    [contractId, network],
+  );
+}
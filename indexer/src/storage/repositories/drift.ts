@@ -0,0 +1,45 @@
+import { queryRows } from "../db.js";
+import { Where } from "./where.js";
+
+export interface DriftEvent {
+  source: string;
+  endpoint: string;
+  schema_name: string;
+  path: string;
+  kind: string;
+  expected: string | null;
+  actual: string | null;
+  sample: unknown;
+  occurrences: number;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+export interface DriftListOptions {
+  network: string;
+  limit: number;
+  source?: string;
+  endpoint?: string;
+  kind?: string;
+  // ISO8601 — only drift seen since then
+  since?: string;
+}
+
+// Most recently seen first
+export async function list(opts: DriftListOptions): Promise<DriftEvent[]> {
+  const where = new Where()
+    .eq("network", opts.network)
+    .eq("source", opts.source)
+    .eq("endpoint", opts.endpoint)
+    .eq("kind", opts.kind)
+    .range("last_seen_at", { from: opts.since });
+  const limit = where.param(opts.limit);
+  return queryRows<DriftEvent>(
+    `SELECT source, endpoint, schema_name, path, kind, expected, actual, sample,
+            occurrences::INTEGER AS occurrences, first_seen_at, last_seen_at
+     FROM schema_drift_events ${where}
+     ORDER BY last_seen_at DESC
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
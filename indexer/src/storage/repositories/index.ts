@@ -0,0 +1,13 @@
+// Typed queries per entity, shared by the API routes. Each module is a
+// namespace: `transfers.list({ network, from, to, sender, cursor })`.
+export * as analytics from "./analytics.js";
+export * as contracts from "./contracts.js";
+export * as drift from "./drift.js";
+export * as prices from "./prices.js";
+export * as rewards from "./rewards.js";
+export * as rounds from "./rounds.js";
+export * as self from "./self.js";
+export * as stats from "./stats.js";
+export * as transactions from "./transactions.js";
+export * as transfers from "./transfers.js";
+export * as validators from "./validators.js";
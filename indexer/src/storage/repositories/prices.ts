@@ -0,0 +1,56 @@
+import { queryOne, queryRows } from "../db.js";
+import { Resolution } from "../retention.js";
+import { ListOptions, Where } from "./where.js";
+
+export interface LatestPrice {
+  price_usd: string;
+  captured_at: string;
+}
+
+// A raw price, or an hourly/daily rollup whose price_usd is the average
+export interface PricePoint {
+  price_usd: string;
+  captured_at: string;
+  resolution: "raw" | Resolution;
+  min_usd: string;
+  max_usd: string;
+  samples: number;
+  sum_usd: string;
+}
+
+export async function latest(network: string): Promise<LatestPrice | null> {
+  return queryOne<LatestPrice>(
+    `SELECT price_usd, captured_at
+     FROM prices
+     WHERE network = $1
+     ORDER BY captured_at DESC
+     LIMIT 1`,
+    [network],
+  );
+}
+
+/**
+ * Raw prices and rollups, newest first. The two cover disjoint time ranges (see
+ * storage/retention.ts), so they are simply read together.
+ */
+export async function history(opts: ListOptions): Promise<PricePoint[]> {
+  const where = new Where();
+  const network = where.param(opts.network);
+  where.range("captured_at", opts);
+  const limit = where.param(opts.limit);
+  return queryRows<PricePoint>(
+    `SELECT * FROM (
+       SELECT price_usd, captured_at, 'raw' AS resolution,
+              price_usd AS min_usd, price_usd AS max_usd, 1 AS samples, price_usd AS sum_usd
+       FROM prices WHERE network = ${network}
+       UNION ALL
+       SELECT (sum_usd / samples)::NUMERIC(20, 8), bucket, resolution,
+              min_usd, max_usd, samples, sum_usd
+       FROM price_rollups WHERE network = ${network}
+     ) p
+     ${where}
+     ORDER BY captured_at DESC
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
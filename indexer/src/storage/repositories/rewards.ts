@@ -0,0 +1,120 @@
+import { queryOne, queryRows } from "../db.js";
+import { ListOptions, Where } from "./where.js";
+
+// rewards has no single amount column — a reward is the sum of its three components
+const REWARD_AMOUNT =
+  "(COALESCE(app_reward, 0) + COALESCE(validator_reward, 0) + COALESCE(sv_reward, 0))";
+// The same over daily_party_rewards, whose sums are never null
+const DAILY_AMOUNT = "(app_rewards + validator_rewards + sv_rewards)";
+
+export type RewardPeriod = "day" | "week" | "month";
+
+export interface RewardOptions extends ListOptions {
+  partyId: string;
+}
+
+export interface Reward {
+  round: number;
+  amount: string;
+  app_reward: string | null;
+  validator_reward: string | null;
+  sv_reward: string | null;
+  created_at: string;
+  captured_at: string;
+}
+
+export interface RewardPeriodTotal {
+  period: string;
+  total_amount: string;
+  round_count: number;
+}
+
+export interface RewardTotals {
+  total_amount: string | null;
+  round_count: number;
+  first_reward: string | null;
+  last_reward: string | null;
+}
+
+export interface RewardEarner {
+  party_id: string;
+  total_amount: string;
+  round_count: number;
+  last_reward_at: string;
+}
+
+function partyWhere(opts: RewardOptions): Where {
+  return new Where()
+    .eq("party_id", opts.partyId)
+    .eq("network", opts.network)
+    .range("created_at", opts);
+}
+
+// Newest round first
+export async function list(opts: RewardOptions): Promise<Reward[]> {
+  const where = partyWhere(opts);
+  const limit = where.param(opts.limit);
+  return queryRows<Reward>(
+    `SELECT round, ${REWARD_AMOUNT}::TEXT AS amount, app_reward, validator_reward, sv_reward,
+            created_at, captured_at
+     FROM rewards ${where}
+     ORDER BY round DESC NULLS LAST
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
+
+// Newest period first. Read from the daily rollups, so from/to are matched by
+// UTC day and rewards show up after the next analytics refresh.
+export async function byPeriod(
+  opts: RewardOptions & { period: RewardPeriod },
+): Promise<RewardPeriodTotal[]> {
+  const where = new Where()
+    .eq("party_id", opts.partyId)
+    .eq("network", opts.network)
+    .days("day", opts);
+  const period = where.param(opts.period);
+  const limit = where.param(opts.limit);
+  return queryRows<RewardPeriodTotal>(
+    `SELECT
+       DATE_TRUNC(${period}, day::TIMESTAMP) AT TIME ZONE 'UTC' AS period,
+       SUM(${DAILY_AMOUNT})::TEXT                             AS total_amount,
+       SUM(reward_count)::INTEGER                             AS round_count
+     FROM daily_party_rewards ${where}
+     GROUP BY 1
+     ORDER BY period DESC
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
+
+export async function totals(network: string, partyId: string): Promise<RewardTotals | null> {
+  return queryOne<RewardTotals>(
+    `SELECT
+       SUM(${REWARD_AMOUNT})::TEXT AS total_amount,
+       COUNT(*)::INTEGER           AS round_count,
+       MIN(created_at)             AS first_reward,
+       MAX(created_at)             AS last_reward
+     FROM rewards
+     WHERE party_id = $1 AND network = $2`,
+    [partyId, network],
+  );
+}
+
+// Parties by total reward, highest first. Same daily rollups as byPeriod.
+export async function leaderboard(opts: ListOptions): Promise<RewardEarner[]> {
+  const where = new Where().eq("network", opts.network).days("day", opts);
+  const limit = where.param(opts.limit);
+  return queryRows<RewardEarner>(
+    `SELECT
+       party_id,
+       SUM(${DAILY_AMOUNT})::TEXT AS total_amount,
+       SUM(reward_count)::INTEGER AS round_count,
+       MAX(last_reward_at)        AS last_reward_at
+     FROM daily_party_rewards ${where}
+     GROUP BY party_id
+     ORDER BY SUM(${DAILY_AMOUNT}) DESC
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
@@ -0,0 +1,31 @@
+import { queryOne, queryRows } from "../db.js";
+import { ListOptions, Where } from "./where.js";
+
+export interface Round {
+  round: number;
+  source: string;
+  created_at: string | null;
+  captured_at: string;
+  raw: unknown;
+}
+
+// Highest round first
+export async function list(opts: ListOptions): Promise<Round[]> {
+  const where = new Where().eq("network", opts.network).range("created_at", opts);
+  const limit = where.param(opts.limit);
+  return queryRows<Round>(
+    `SELECT round, source, created_at, captured_at, raw
+     FROM rounds ${where}
+     ORDER BY round DESC
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
+
+export async function get(network: string, round: number): Promise<Round | null> {
+  return queryOne<Round>(
+    `SELECT round, source, created_at, captured_at, raw
+     FROM rounds WHERE round = $1 AND network = $2`,
+    [round, network],
+  );
+}
@@ -0,0 +1,136 @@
+import { queryOne, queryRows } from "../db.js";
+import { ListOptions, Where } from "./where.js";
+
+// The operator's own validator wallet, as stored by the `self` job
+
+export interface SelfBalancePoint {
+  round: number | null;
+  unlocked_qty: string | null;
+  locked_qty: string | null;
+  holding_fees: string | null;
+  captured_at: string;
+}
+
+export interface SelfBalance extends SelfBalancePoint {
+  party_id: string;
+}
+
+export interface SelfTransferOffer {
+  contract_id: string;
+  sender: string | null;
+  receiver: string | null;
+  amount: string | null;
+  expires_at: string | null;
+  // False once the offer has left the wallet
+  active: boolean;
+  first_seen_at: string;
+  last_seen_at: string;
+  raw: unknown;
+}
+
+export interface SelfTransaction {
+  event_id: string;
+  transaction_type: string | null;
+  choice: string | null;
+  created_at: string | null;
+  captured_at: string;
+  raw: unknown;
+}
+
+export interface SelfTrafficPurchase {
+  event_id: string;
+  cc_spent: string | null;
+  created_at: string | null;
+  raw: unknown;
+}
+
+export interface SelfTrafficTotals {
+  purchases: number;
+  // Null without purchases
+  cc_spent: string | null;
+}
+
+export async function latestBalance(network: string): Promise<SelfBalance | null> {
+  return queryOne<SelfBalance>(
+    `SELECT party_id, round, unlocked_qty, locked_qty, holding_fees, captured_at
+     FROM self_balances
+     WHERE network = $1
+     ORDER BY captured_at DESC
+     LIMIT 1`,
+    [network],
+  );
+}
+
+// Newest first
+export async function balanceHistory(opts: ListOptions): Promise<SelfBalancePoint[]> {
+  const where = new Where().eq("network", opts.network).range("captured_at", opts);
+  const limit = where.param(opts.limit);
+  return queryRows<SelfBalancePoint>(
+    `SELECT round, unlocked_qty, locked_qty, holding_fees, captured_at
+     FROM self_balances ${where}
+     ORDER BY captured_at DESC
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
+
+// Newest first; with `activeOnly`, only offers still open in the wallet
+export async function transferOffers(opts: {
+  network: string;
+  limit: number;
+  activeOnly: boolean;
+}): Promise<SelfTransferOffer[]> {
+  const where = new Where().eq("network", opts.network);
+  if (opts.activeOnly) where.and("active");
+  const limit = where.param(opts.limit);
+  return queryRows<SelfTransferOffer>(
+    `SELECT contract_id, sender, receiver, amount, expires_at, active,
+            first_seen_at, last_seen_at, raw
+     FROM self_transfer_offers ${where}
+     ORDER BY first_seen_at DESC
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
+
+// Newest first
+export async function transactions(
+  opts: ListOptions & { type?: string },
+): Promise<SelfTransaction[]> {
+  const where = new Where()
+    .eq("network", opts.network)
+    .eq("transaction_type", opts.type)
+    .range("created_at", opts);
+  const limit = where.param(opts.limit);
+  return queryRows<SelfTransaction>(
+    `SELECT event_id, transaction_type, choice, created_at, captured_at, raw
+     FROM self_transactions ${where}
+     ORDER BY created_at DESC NULLS LAST
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
+
+// Newest first
+export async function trafficPurchases(
+  network: string,
+  limit: number,
+): Promise<SelfTrafficPurchase[]> {
+  return queryRows<SelfTrafficPurchase>(
+    `SELECT event_id, cc_spent, created_at, raw
+     FROM self_traffic_purchases
+     WHERE network = $1
+     ORDER BY created_at DESC NULLS LAST
+     LIMIT $2`,
+    [network, limit],
+  );
+}
+
+export async function trafficTotals(network: string): Promise<SelfTrafficTotals> {
+  const row = await queryOne<{ purchases: string; cc_spent: string | null }>(
+    `SELECT COUNT(*) AS purchases, SUM(cc_spent) AS cc_spent
+     FROM self_traffic_purchases WHERE network = $1`,
+    [network],
+  );
+  return { purchases: Number(row?.purchases ?? 0), cc_spent: row?.cc_spent ?? null };
+}
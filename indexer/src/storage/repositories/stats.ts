@@ -0,0 +1,38 @@
+import { queryOne, queryRows } from "../db.js";
+import { ListOptions, Where } from "./where.js";
+
+export interface StatsSnapshot {
+  raw: unknown;
+  captured_at: string;
+  cc_price: string | null;
+}
+
+export interface StatsPoint {
+  total_validators: number;
+  cc_price: string | null;
+  captured_at: string;
+}
+
+export async function latest(network: string): Promise<StatsSnapshot | null> {
+  return queryOne<StatsSnapshot>(
+    `SELECT raw, captured_at, cc_price
+     FROM stats_snapshots
+     WHERE network = $1
+     ORDER BY captured_at DESC
+     LIMIT 1`,
+    [network],
+  );
+}
+
+// Newest first
+export async function history(opts: ListOptions): Promise<StatsPoint[]> {
+  const where = new Where().eq("network", opts.network).range("captured_at", opts);
+  const limit = where.param(opts.limit);
+  return queryRows<StatsPoint>(
+    `SELECT total_validators, cc_price, captured_at
+     FROM stats_snapshots ${where}
+     ORDER BY captured_at DESC
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
@@ -0,0 +1,31 @@
+import { queryOne, queryRows } from "../db.js";
+import { ListOptions, Where } from "./where.js";
+
+export interface Transaction {
+  update_id: string;
+  source: string;
+  created_at: string;
+  captured_at: string;
+  raw: unknown;
+}
+
+// Newest first
+export async function list(opts: ListOptions): Promise<Transaction[]> {
+  const where = new Where().eq("network", opts.network).range("created_at", opts);
+  const limit = where.param(opts.limit);
+  return queryRows<Transaction>(
+    `SELECT update_id, source, created_at, captured_at, raw
+     FROM transactions ${where}
+     ORDER BY created_at DESC NULLS LAST
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
+
+export async function get(network: string, updateId: string): Promise<Transaction | null> {
+  return queryOne<Transaction>(
+    `SELECT update_id, source, created_at, captured_at, raw
+     FROM transactions WHERE update_id = $1 AND network = $2`,
+    [updateId, network],
+  );
+}
@@ -0,0 +1,82 @@
+import { queryRows } from "../db.js";
+import { ListOptions, Where } from "./where.js";
+
+export interface Transfer {
+  id: string;
+  sender: string | null;
+  receiver: string | null;
+  amount: string | null;
+  created_at: string;
+  captured_at: string;
+}
+
+export interface TransferListOptions extends ListOptions {
+  sender?: string;
+  receiver?: string;
+  // Sender or receiver
+  party?: string;
+  // From a previous page's nextCursor
+  cursor?: TransferCursor;
+}
+
+// Position of the last row of a page: created_at exactly as stored (microseconds
+// would be lost in a Date) plus id, which breaks ties
+export interface TransferCursor {
+  at: string;
+  id: string;
+}
+
+export interface TransferPage {
+  rows: Transfer[];
+  // Null on the last page
+  nextCursor: string | null;
+}
+
+// created_at::TEXT, e.g. "2026-03-02 10:15:42.123456+00"
+const TIMESTAMP_RE = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d+)?([+-]\d{2}(:?\d{2})?|Z)?$/;
+
+export function encodeCursor(cursor: TransferCursor): string {
+  return Buffer.from(JSON.stringify([cursor.at, cursor.id])).toString("base64url");
+}
+
+// Null for anything encodeCursor did not produce
+export function decodeCursor(value: string): TransferCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+    const [at, id] = parsed;
+    if (typeof at !== "string" || typeof id !== "string" || !TIMESTAMP_RE.test(at)) return null;
+    return { at, id };
+  } catch {
+    return null;
+  }
+}
+
+/** Newest first; pages with keyset cursors. */
+export async function list(opts: TransferListOptions): Promise<TransferPage> {
+  const where = new Where()
+    .eq("network", opts.network)
+    .range("created_at", opts)
+    .eq("sender", opts.sender)
+    .eq("receiver", opts.receiver);
+  if (opts.party !== undefined) where.and("(sender = ? OR receiver = ?)", opts.party, opts.party);
+  const after = opts.cursor;
+  if (after) {
+    where.and("(created_at < ? OR (created_at = ? AND id < ?))", after.at, after.at, after.id);
+  }
+  const limit = where.param(opts.limit);
+
+  const rows = await queryRows<Transfer & { cursor_at: string }>(
+    `SELECT id, sender, receiver, amount, created_at, captured_at, created_at::TEXT AS cursor_at
+     FROM transfers ${where}
+     ORDER BY created_at DESC NULLS LAST, id DESC
+     LIMIT ${limit}`,
+    where.params,
+  );
+  const last = rows[rows.length - 1];
+  return {
+    rows: rows.map(({ cursor_at: _at, ...r }) => r),
+    nextCursor:
+      last && rows.length === opts.limit ? encodeCursor({ at: last.cursor_at, id: last.id }) : null,
+  };
+}
@@ -0,0 +1,76 @@
+import { queryOne, queryRows } from "../db.js";
+import { Resolution } from "../retention.js";
+import { ListOptions, Where } from "./where.js";
+
+export interface Validator {
+  id: string;
+  name: string | null;
+  party_id: string | null;
+  is_active: boolean | null;
+  version: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+export interface ValidatorDetail extends Validator {
+  raw: unknown;
+}
+
+// A single snapshot, or an hourly/daily rollup of `samples` snapshots
+export interface UptimePoint {
+  captured_at: string;
+  resolution: "raw" | Resolution;
+  // Null for rollups
+  is_active: boolean | null;
+  samples: number;
+  active_samples: number;
+}
+
+// Most recently seen first
+export async function list(network: string, limit: number): Promise<Validator[]> {
+  return queryRows<Validator>(
+    `SELECT id, name, party_id, is_active, version, first_seen_at, last_seen_at
+     FROM validators
+     WHERE network = $1
+     ORDER BY last_seen_at DESC
+     LIMIT $2`,
+    [network, limit],
+  );
+}
+
+export async function get(network: string, id: string): Promise<ValidatorDetail | null> {
+  return queryOne<ValidatorDetail>(
+    `SELECT id, name, party_id, is_active, version, first_seen_at, last_seen_at, raw
+     FROM validators
+     WHERE id = $1 AND network = $2`,
+    [id, network],
+  );
+}
+
+/**
+ * Uptime samples, newest first. Snapshots past RETENTION_RAW_DAYS only exist as
+ * hourly/daily rollups; the two never overlap, so they are simply read together.
+ */
+export async function uptime(opts: ListOptions & { validatorId: string }): Promise<UptimePoint[]> {
+  const where = new Where();
+  const id = where.param(opts.validatorId);
+  const network = where.param(opts.network);
+  where.range("captured_at", opts);
+  const limit = where.param(opts.limit);
+  return queryRows<UptimePoint>(
+    `SELECT * FROM (
+       SELECT captured_at, 'raw' AS resolution, is_active,
+              1 AS samples, CASE WHEN is_active THEN 1 ELSE 0 END AS active_samples
+       FROM validator_snapshots
+       WHERE validator_id = ${id} AND network = ${network}
+       UNION ALL
+       SELECT bucket, resolution, NULL, samples, active_samples
+       FROM validator_uptime_rollups
+       WHERE validator_id = ${id} AND network = ${network}
+     ) s
+     ${where}
+     ORDER BY captured_at DESC
+     LIMIT ${limit}`,
+    where.params,
+  );
+}
@@ -0,0 +1,54 @@
+// Shared by the repositories: builds a WHERE clause and its positional params
+// together, so no query numbers its own `$n` placeholders.
+
+export interface TimeRange {
+  // ISO8601, inclusive on both ends
+  from?: string;
+  to?: string;
+}
+
+export class Where {
+  readonly params: unknown[] = [];
+  private readonly conditions: string[] = [];
+
+  /** Adds a parameter and returns its placeholder, for use outside WHERE (LIMIT). */
+  param(value: unknown): string {
+    this.params.push(value);
+    return `$${this.params.length}`;
+  }
+
+  /** Adds a condition; each `?` in `sql` takes the next of `values`. */
+  and(sql: string, ...values: unknown[]): this {
+    let i = 0;
+    this.conditions.push(sql.replace(/\?/g, () => this.param(values[i++])));
+    return this;
+  }
+
+  // `column = value` unless value is undefined
+  eq(column: string, value: unknown): this {
+    return value === undefined ? this : this.and(`${column} = ?`, value);
+  }
+
+  range(column: string, { from, to }: TimeRange): this {
+    if (from) this.and(`${column} >= ?`, from);
+    if (to) this.and(`${column} <= ?`, to);
+    return this;
+  }
+
+  // A DATE column against ISO8601 bounds, by the date they name — "2026-03-02"
+  // and "2026-03-02T18:00:00Z" both select the whole of March 2
+  days(column: string, { from, to }: TimeRange): this {
+    if (from) this.and(`${column} >= ?::DATE`, from);
+    if (to) this.and(`${column} <= ?::DATE`, to);
+    return this;
+  }
+
+  toString(): string {
+    return this.conditions.length ? `WHERE ${this.conditions.join(" AND ")}` : "";
+  }
+}
+
+export interface ListOptions extends TimeRange {
+  network: string;
+  limit: number;
+}
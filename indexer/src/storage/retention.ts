@@ -0,0 +1,273 @@
+import { query, queryOne } from "./db.js";
+
+// Downsampling of the snapshot tables. Validator uptime and prices are moved
+// into *_rollups — first per hour, later per day — and the raw rows deleted, so
+// every sample is counted exactly once across raw and rollup rows. stats and
+// governance stats snapshots are thinned instead: the last snapshot of each
+// hour, later of each day, is kept with its raw payload.
+
+export type Resolution = "hour" | "day";
+
+export interface RetentionPolicy {
+  rawDays: number;
+  hourlyDays: number;
+  // 0 = daily rollups are kept forever
+  dailyDays: number;
+  // 0 = job_runs are kept forever
+  jobRunsDays: number;
+}
+
+export interface RetentionResult {
+  // Raw snapshots folded into hourly rollups
+  rolledUp: number;
+  // Hourly rollups folded into daily ones
+  merged: number;
+  // Stats snapshots thinned out, plus daily rollups past retention
+  deleted: number;
+  // job_runs rows past retention
+  jobRuns: number;
+}
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+const floorTo = (ms: number, unit: number) => new Date(Math.floor(ms / unit) * unit);
+
+interface Moved {
+  moved: number;
+}
+
+/**
+ * Runs `step` over [oldest, before) one day at a time, so the first run over a
+ * table that never had retention does not become one huge statement.
+ */
+async function byDay(
+  oldestSql: string,
+  network: string,
+  before: Date,
+  step: (from: Date, to: Date) => Promise<Moved | null>,
+): Promise<number> {
+  const row = await queryOne<{ at: Date | null }>(oldestSql, [network, before]);
+  if (!row?.at) return 0;
+  let total = 0;
+  let from = floorTo(row.at.getTime(), HOUR_MS);
+  while (from < before) {
+    const to = new Date(Math.min(from.getTime() + DAY_MS, before.getTime()));
+    total += (await step(from, to))?.moved ?? 0;
+    from = to;
+  }
+  return total;
+}
+
+// One statement per chunk: the rows deleted are exactly the rows rolled up (a
+// data-modifying CTE runs even though the final SELECT does not read it)
+async function rollupValidatorSnapshots(network: string, before: Date): Promise<number> {
+  return byDay(
+    `SELECT MIN(captured_at) AS at FROM validator_snapshots
+     WHERE network = $1 AND captured_at < $2`,
+    network,
+    before,
+    (from, to) =>
+      queryOne<Moved>(
+        `WITH moved AS (
+           DELETE FROM validator_snapshots
+           WHERE network = $1 AND captured_at >= $2 AND captured_at < $3
+           RETURNING validator_id, captured_at, is_active
+         ),
+         rolled AS (
+           INSERT INTO validator_uptime_rollups
+             (network, validator_id, resolution, bucket, samples, active_samples)
+           SELECT $1, validator_id, 'hour', date_trunc('hour', captured_at, 'UTC'),
+                  COUNT(*), COUNT(*) FILTER (WHERE is_active)
+           FROM moved
+           GROUP BY validator_id, date_trunc('hour', captured_at, 'UTC')
+           ON CONFLICT (network, validator_id, resolution, bucket) DO UPDATE SET
+             samples        = validator_uptime_rollups.samples + EXCLUDED.samples,
+             active_samples = validator_uptime_rollups.active_samples + EXCLUDED.active_samples
+         )
+         SELECT (SELECT COUNT(*) FROM moved)::INTEGER AS moved`,
+        [network, from, to],
+      ),
+  );
+}
+
+async function mergeValidatorRollups(network: string, before: Date): Promise<number> {
+  return byDay(
+    `SELECT MIN(bucket) AS at FROM validator_uptime_rollups
+     WHERE network = $1 AND resolution = 'hour' AND bucket < $2`,
+    network,
+    before,
+    (from, to) =>
+      queryOne<Moved>(
+        `WITH moved AS (
+           DELETE FROM validator_uptime_rollups
+           WHERE network = $1 AND resolution = 'hour' AND bucket >= $2 AND bucket < $3
+           RETURNING validator_id, bucket, samples, active_samples
+         ),
+         rolled AS (
+           INSERT INTO validator_uptime_rollups
+             (network, validator_id, resolution, bucket, samples, active_samples)
+           SELECT $1, validator_id, 'day', date_trunc('day', bucket, 'UTC'),
+                  SUM(samples), SUM(active_samples)
+           FROM moved
+           GROUP BY validator_id, date_trunc('day', bucket, 'UTC')
+           ON CONFLICT (network, validator_id, resolution, bucket) DO UPDATE SET
+             samples        = validator_uptime_rollups.samples + EXCLUDED.samples,
+             active_samples = validator_uptime_rollups.active_samples + EXCLUDED.active_samples
+         )
+         SELECT (SELECT COUNT(*) FROM moved)::INTEGER AS moved`,
+        [network, from, to],
+      ),
+  );
+}
+
+async function rollupPrices(network: string, before: Date): Promise<number> {
+  return byDay(
+    `SELECT MIN(captured_at) AS at FROM prices WHERE network = $1 AND captured_at < $2`,
+    network,
+    before,
+    (from, to) =>
+      queryOne<Moved>(
+        `WITH moved AS (
+           DELETE FROM prices
+           WHERE network = $1 AND captured_at >= $2 AND captured_at < $3
+           RETURNING captured_at, price_usd
+         ),
+         rolled AS (
+           INSERT INTO price_rollups
+             (network, resolution, bucket, samples, min_usd, max_usd, sum_usd)
+           SELECT $1, 'hour', date_trunc('hour', captured_at, 'UTC'),
+                  COUNT(*), MIN(price_usd), MAX(price_usd), SUM(price_usd)
+           FROM moved
+           GROUP BY date_trunc('hour', captured_at, 'UTC')
+           ON CONFLICT (network, resolution, bucket) DO UPDATE SET
+             samples = price_rollups.samples + EXCLUDED.samples,
+             min_usd = LEAST(price_rollups.min_usd, EXCLUDED.min_usd),
+             max_usd = GREATEST(price_rollups.max_usd, EXCLUDED.max_usd),
+             sum_usd = price_rollups.sum_usd + EXCLUDED.sum_usd
+         )
+         SELECT (SELECT COUNT(*) FROM moved)::INTEGER AS moved`,
+        [network, from, to],
+      ),
+  );
+}
+
+async function mergePriceRollups(network: string, before: Date): Promise<number> {
+  return byDay(
+    `SELECT MIN(bucket) AS at FROM price_rollups
+     WHERE network = $1 AND resolution = 'hour' AND bucket < $2`,
+    network,
+    before,
+    (from, to) =>
+      queryOne<Moved>(
+        `WITH moved AS (
+           DELETE FROM price_rollups
+           WHERE network = $1 AND resolution = 'hour' AND bucket >= $2 AND bucket < $3
+           RETURNING bucket, samples, min_usd, max_usd, sum_usd
+         ),
+         rolled AS (
+           INSERT INTO price_rollups
+             (network, resolution, bucket, samples, min_usd, max_usd, sum_usd)
+           SELECT $1, 'day', date_trunc('day', bucket, 'UTC'),
+                  SUM(samples), MIN(min_usd), MAX(max_usd), SUM(sum_usd)
+           FROM moved
+           GROUP BY date_trunc('day', bucket, 'UTC')
+           ON CONFLICT (network, resolution, bucket) DO UPDATE SET
+             samples = price_rollups.samples + EXCLUDED.samples,
+             min_usd = LEAST(price_rollups.min_usd, EXCLUDED.min_usd),
+             max_usd = GREATEST(price_rollups.max_usd, EXCLUDED.max_usd),
+             sum_usd = price_rollups.sum_usd + EXCLUDED.sum_usd
+         )
+         SELECT (SELECT COUNT(*) FROM moved)::INTEGER AS moved`,
+        [network, from, to],
+      ),
+  );
+}
+
+// Keeps the newest snapshot of each `resolution` bucket in [from, before)
+async function thinSnapshots(
+  table: "stats_snapshots" | "governance_stats_snapshots",
+  network: string,
+  from: Date | null,
+  before: Date,
+  resolution: Resolution,
+): Promise<number> {
+  const result = await query(
+    `DELETE FROM ${table}
+     WHERE network = $1 AND captured_at < $2 AND ($3::TIMESTAMPTZ IS NULL OR captured_at >= $3)
+       AND id NOT IN (
+         SELECT DISTINCT ON (date_trunc($4, captured_at, 'UTC')) id
+         FROM ${table}
+         WHERE network = $1 AND captured_at < $2 AND ($3::TIMESTAMPTZ IS NULL OR captured_at >= $3)
+         ORDER BY date_trunc($4, captured_at, 'UTC'), captured_at DESC
+       )`,
+    [network, before, from, resolution],
+  );
+  return result.rowCount ?? 0;
+}
+
+async function dropExpired(network: string, before: Date): Promise<number> {
+  let deleted = 0;
+  for (const sql of [
+    `DELETE FROM validator_uptime_rollups WHERE network = $1 AND bucket < $2`,
+    `DELETE FROM price_rollups WHERE network = $1 AND bucket < $2`,
+    `DELETE FROM stats_snapshots WHERE network = $1 AND captured_at < $2`,
+    `DELETE FROM governance_stats_snapshots WHERE network = $1 AND captured_at < $2`,
+  ]) {
+    deleted += (await query(sql, [network, before])).rowCount ?? 0;
+  }
+  return deleted;
+}
+
+// Run history older than `before` goes, except each job's last success, which
+// /admin/jobs reports as last_success_at however long ago it was
+async function pruneJobRuns(network: string, before: Date): Promise<number> {
+  const result = await query(
+    `DELETE FROM job_runs
+     WHERE network = $1 AND started_at < $2
+       AND id NOT IN (
+         SELECT DISTINCT ON (job) id
+         FROM job_runs
+         WHERE network = $1 AND status = 'success'
+         ORDER BY job, started_at DESC
+       )`,
+    [network, before],
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Applies the policy to one network's snapshot tables and job history. Bucket boundaries are
+ * whole UTC hours and days, so a bucket is only ever rolled up once it is
+ * complete. Safe to re-run: every step is idempotent.
+ */
+export async function applyRetention(
+  network: string,
+  policy: RetentionPolicy,
+  now = Date.now(),
+): Promise<RetentionResult> {
+  const rawBefore = floorTo(now - policy.rawDays * DAY_MS, HOUR_MS);
+  const hourlyBefore = floorTo(now - policy.hourlyDays * DAY_MS, DAY_MS);
+  const dailyBefore =
+    policy.dailyDays > 0 ? floorTo(now - policy.dailyDays * DAY_MS, DAY_MS) : null;
+
+  const rolledUp =
+    (await rollupValidatorSnapshots(network, rawBefore)) + (await rollupPrices(network, rawBefore));
+  const merged =
+    (await mergeValidatorRollups(network, hourlyBefore)) +
+    (await mergePriceRollups(network, hourlyBefore));
+
+  let deleted = 0;
+  for (const table of ["stats_snapshots", "governance_stats_snapshots"] as const) {
+    deleted += await thinSnapshots(table, network, hourlyBefore, rawBefore, "hour");
+    deleted += await thinSnapshots(table, network, dailyBefore, hourlyBefore, "day");
+  }
+  if (dailyBefore) deleted += await dropExpired(network, dailyBefore);
+
+  const jobRuns =
+    policy.jobRunsDays > 0
+      ? await pruneJobRuns(network, new Date(now - policy.jobRunsDays * DAY_MS))
+      : 0;
+
+  return { rolledUp, merged, deleted, jobRuns };
+}
@@ -0,0 +1,41 @@
+import { TestContext } from "node:test";
+import { pool } from "../src/storage/db.js";
+
+// Stands in for Postgres: every statement sent through the pool, or through a
+// client from withTransaction, is recorded and answered with canned rows. Lets
+// pollers and routes run without a database; the SQL itself is not executed.
+
+export interface Statement {
+  sql: string;
+  params: unknown[];
+}
+
+export class FakeDb {
+  readonly statements: Statement[] = [];
+  private readonly answers: Array<{ match: RegExp; rows: unknown[] }> = [];
+
+  // Rows for every later statement matching `match`; anything else gets none
+  answer(match: RegExp, rows: unknown[]): this {
+    this.answers.unshift({ match, rows });
+    return this;
+  }
+
+  find(match: RegExp): Statement[] {
+    return this.statements.filter((s) => match.test(s.sql));
+  }
+
+  run(sql: string, params: unknown[] = []): { rows: unknown[]; rowCount: number } {
+    this.statements.push({ sql, params });
+    const rows = this.answers.find((a) => a.match.test(sql))?.rows ?? [];
+    return { rows, rowCount: rows.length };
+  }
+}
+
+/** Routes the pool to a FakeDb for the rest of the test. */
+export function fakeDb(t: TestContext): FakeDb {
+  const db = new FakeDb();
+  const query = async (sql: string, params?: unknown[]) => db.run(sql, params);
+  t.mock.method(pool, "query", query);
+  t.mock.method(pool, "connect", async () => ({ query, release: () => {} }));
+  return db;
+}
@@ -0,0 +1,173 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ABORTED_STATUS,
+  RequestResult,
+  UpstreamClient,
+  UpstreamOptions,
+  withSignal,
+} from "../src/collectors/http.js";
+import { backoffDelay, parseRetryAfter } from "../src/collectors/resilience.js";
+import { delay, Handler, sendJson, startServer } from "./support.js";
+
+// Retries, failover and circuit breakers against a local HTTP server standing in
+// for the upstream.
+
+function reply(status: number, body: unknown = {}): Handler {
+  return (_req, res) => sendJson(res, status, body);
+}
+
+class TestClient extends UpstreamClient {
+  constructor(baseUrls: string[], overrides: Partial<UpstreamOptions> = {}) {
+    const unlimited = { ratePerSec: 0, burst: 1, maxInFlight: 0 };
+    super(
+      "test",
+      {
+        baseUrls,
+        timeoutMs: 2000,
+        retries: 2,
+        retryBaseMs: 1,
+        retryMaxMs: 5,
+        breakerThreshold: 2,
+        breakerCooldownMs: 50,
+        limits: { api: unlimited, ingest: unlimited },
+        ...overrides,
+      },
+      "ingest",
+    );
+  }
+
+  fetch<T>(path: string): Promise<RequestResult<T>> {
+    return this.get<T>(path);
+  }
+}
+
+describe("retries", () => {
+  test("retries 503s until the upstream answers", async () => {
+    const upstream = await startServer(reply(503));
+    upstream.handle = (req, res) => reply(upstream.hits < 3 ? 503 : 200, { n: 1 })(req, res);
+
+    const res = await new TestClient([upstream.url]).fetch<{ n: number }>("/api/stats");
+
+    assert.deepEqual(res, { ok: true, data: { n: 1 }, upstream: new URL(upstream.url).host });
+    assert.equal(upstream.hits, 3);
+  });
+
+  test("gives up after the configured retries", async () => {
+    const upstream = await startServer(reply(502));
+
+    const res = await new TestClient([upstream.url], { retries: 1 }).fetch("/api/stats");
+
+    assert.equal(res.ok, false);
+    assert.equal(!res.ok && res.status, 502);
+    assert.equal(upstream.hits, 2);
+  });
+
+  test("does not retry a plain 500", async () => {
+    const upstream = await startServer(reply(500, { error: "no data" }));
+    const client = new TestClient([upstream.url]);
+
+    const res = await client.fetch("/api/parties/abc/balance");
+
+    assert.equal(!res.ok && res.status, 500);
+    assert.equal(upstream.hits, 1);
+    assert.equal(client.breakerStates()[0].state, "closed");
+  });
+
+  test("fails over to the next mirror instead of retrying", async () => {
+    const down = await startServer(reply(503));
+    const up = await startServer(reply(200, { n: 2 }));
+
+    const res = await new TestClient([down.url, up.url]).fetch("/api/stats");
+
+    assert.equal(res.ok, true);
+    assert.equal(res.upstream, new URL(up.url).host);
+    assert.equal(down.hits, 1);
+  });
+});
+
+describe("cancellation", () => {
+  test("aborting the caller's signal cancels a request in flight", async () => {
+    const upstream = await startServer((_req, res) => {
+      setTimeout(() => sendJson(res, 200), 1000);
+    });
+    const client = new TestClient([upstream.url]);
+    const controller = new AbortController();
+
+    const pending = withSignal(controller.signal, () => client.fetch("/api/stats"));
+    setTimeout(() => controller.abort(new Error("shutdown")), 20);
+    const res = await pending;
+
+    assert.equal(!res.ok && res.status, ABORTED_STATUS);
+    assert.equal(!res.ok && res.error, "aborted: shutdown");
+    assert.equal(upstream.hits, 1);
+  });
+
+  test("the request timeout still applies under a caller's signal", async () => {
+    const upstream = await startServer((_req, res) => {
+      setTimeout(() => sendJson(res, 200), 1000);
+    });
+    const client = new TestClient([upstream.url], { timeoutMs: 20, retries: 0 });
+
+    const res = await withSignal(new AbortController().signal, () => client.fetch("/api/stats"));
+
+    assert.equal(!res.ok && res.status, 0);
+  });
+});
+
+describe("circuit breaker", () => {
+  test("opens after the threshold, fails fast, then closes on a good trial", async () => {
+    const upstream = await startServer(reply(503));
+    const client = new TestClient([upstream.url], { retries: 0 });
+
+    await client.fetch("/api/validators/node-1");
+    await client.fetch("/api/validators/node-2");
+    assert.equal(client.breakerStates()[0].state, "open");
+    assert.equal(
+      client.breakerStates()[0].endpoint,
+      `${new URL(upstream.url).host}/api/validators/:id`,
+    );
+
+    const fast = await client.fetch("/api/validators/node-3");
+    assert.equal(!fast.ok && fast.error.startsWith("circuit open"), true);
+    assert.equal(upstream.hits, 2);
+    assert.equal(client.isHealthy(), false);
+
+    await delay(60);
+    upstream.handle = reply(200, {});
+    const trial = await client.fetch("/api/validators/node-4");
+    assert.equal(trial.ok, true);
+    assert.equal(client.breakerStates()[0].state, "closed");
+    assert.equal(client.isHealthy(), true);
+  });
+
+  test("re-opens when the half-open trial fails", async () => {
+    const upstream = await startServer(reply(504));
+    const client = new TestClient([upstream.url], { retries: 0, breakerThreshold: 1 });
+
+    await client.fetch("/api/rounds");
+    await delay(60);
+    await client.fetch("/api/rounds");
+
+    assert.equal(client.breakerStates()[0].state, "open");
+    assert.equal(upstream.hits, 2);
+  });
+});
+
+describe("backoff", () => {
+  test("stays within the exponential ceiling", () => {
+    const opts = { retries: 5, baseMs: 100, maxMs: 1000 };
+    for (let attempt = 0; attempt < 6; attempt++) {
+      const delay = backoffDelay(attempt, opts);
+      assert.ok(delay >= 0 && delay <= Math.min(1000, 100 * 2 ** attempt));
+    }
+  });
+
+  test("reads Retry-After as seconds or an HTTP date", () => {
+    const now = Date.parse("2026-03-02T10:00:00Z");
+    assert.equal(parseRetryAfter("3", now), 3000);
+    assert.equal(parseRetryAfter("Mon, 02 Mar 2026 10:00:05 GMT", now), 5000);
+    assert.equal(parseRetryAfter("soon", now), null);
+    assert.equal(parseRetryAfter(null, now), null);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { performance } from "node:perf_hooks";
+import { withTransaction } from "../src/storage/db.js";
+import {
+  insertSelfTransactions,
+  insertTransfers,
+  upsertPreapprovals,
+  upsertValidators,
+} from "../src/storage/ingest.js";
+import {
+  LighthousePreapproval,
+  LighthouseTransfer,
+  LighthouseValidator,
+} from "../src/collectors/lighthouse.js";
+import { WalletTxLogEntry } from "../src/collectors/validator.js";
+import { fakeDb } from "./fake-db.js";
+
+// Batch writers against a FakeDb: how many statements a batch costs, and that a
+// batch goes out in one transaction. Throughput here is the client side only —
+// building and binding the statements — since nothing is executed.
+
+function transfers(n: number): LighthouseTransfer[] {
+  return Array.from({ length: n }, (_, i) => ({
+    id: 10_000 + i,
+    created_at: new Date(Date.UTC(2026, 2, 1, 0, 0, i)).toISOString(),
+    sender_address: `party-${i % 50}`,
+    receiver_address: `party-${(i + 1) % 50}`,
+    amount: 12.5,
+  })) as LighthouseTransfer[];
+}
+
+function validators(n: number): LighthouseValidator[] {
+  return Array.from({ length: n }, (_, i) => ({
+    id: `validator-${i}`,
+    version: "0.4.10",
+    last_active_at: "2026-03-01T00:00:00Z",
+  })) as LighthouseValidator[];
+}
+
+function verbs(sql: string[]): string[] {
+  return sql.map((s) => s.trim().split(/\s+/)[0]);
+}
+
+describe("batched ingest", () => {
+  test("a transfer page is one transaction with a statement per 500 rows", async (t) => {
+    const db = fakeDb(t);
+    const rows = transfers(5_000);
+
+    const started = performance.now();
+    await withTransaction((client) => insertTransfers(client, "mainnet", rows));
+    const ms = performance.now() - started;
+
+    const inserts = db.find(/INSERT INTO transfers/);
+    assert.equal(inserts.length, 10);
+    assert.equal(inserts[0].params.length, 500 * 7);
+    assert.deepEqual(verbs(db.statements.map((s) => s.sql)), [
+      "BEGIN",
+      ...inserts.map(() => "INSERT"),
+      "COMMIT",
+    ]);
+    t.diagnostic(`transfers: ${rows.length} rows in ${ms.toFixed(1)} ms`);
+    t.diagnostic(
+      `${Math.round(rows.length / (ms / 1000))} rows/s, ${db.statements.length} round-trips`,
+    );
+  });
+
+  test("200 validators cost two statements, not two per validator", async (t) => {
+    const db = fakeDb(t);
+    const rows = validators(200);
+
+    const started = performance.now();
+    await withTransaction((client) => upsertValidators(client, "mainnet", rows));
+    const ms = performance.now() - started;
+
+    assert.equal(db.find(/INSERT INTO validators/).length, 1);
+    assert.equal(db.find(/INSERT INTO validator_snapshots/).length, 1);
+    assert.equal(db.statements.length, 4, "BEGIN, two inserts, COMMIT");
+    t.diagnostic(`validators: ${rows.length} rows in ${ms.toFixed(1)} ms`);
+  });
+
+  test("transfers without a timestamp are skipped and reported", async (t) => {
+    const db = fakeDb(t);
+    const warn = t.mock.method(console, "warn", () => {});
+    const rows = [...transfers(2), { id: 99, amount: 1 } as LighthouseTransfer];
+
+    await withTransaction((client) => insertTransfers(client, "mainnet", rows));
+
+    const [insert] = db.find(/INSERT INTO transfers/);
+    assert.equal(insert.params.length, 2 * 7);
+    assert.equal(warn.mock.callCount(), 1);
+    assert.match(String(warn.mock.calls[0].arguments[0]), /skipped 1 transfers .*: 99$/);
+  });
+
+  test('rows without an id are skipped and reported, not stored under "undefined"', async (t) => {
+    const db = fakeDb(t);
+    const warn = t.mock.method(console, "warn", () => {});
+    const rows = [...transfers(1), { created_at: "2026-03-01T00:00:00Z" } as LighthouseTransfer];
+    const preapprovals = [{ id: 7 }, {}, {}] as LighthousePreapproval[];
+
+    await withTransaction(async (client) => {
+      await insertTransfers(client, "mainnet", rows);
+      await upsertPreapprovals(client, "mainnet", preapprovals);
+    });
+
+    assert.deepEqual(db.find(/INSERT INTO transfers/)[0].params[0], "10000");
+    assert.deepEqual(db.find(/INSERT INTO preapprovals/)[0].params, ["7", "mainnet", '{"id":7}']);
+    assert.deepEqual(
+      warn.mock.calls.map((c) => c.arguments[0]),
+      [
+        "[ingest] mainnet: skipped 1 transfers without id",
+        "[ingest] mainnet: skipped 2 preapprovals without id",
+      ],
+    );
+  });
+
+  test("a failed batch is rolled back as a whole", async (t) => {
+    const db = fakeDb(t);
+    const run = db.run.bind(db);
+    t.mock.method(db, "run", (sql: string, params?: unknown[]) => {
+      if (/validator_snapshots/.test(sql)) throw new Error("connection reset");
+      return run(sql, params);
+    });
+
+    await assert.rejects(
+      withTransaction((client) => upsertValidators(client, "mainnet", validators(3))),
+      /connection reset/,
+    );
+    assert.deepEqual(verbs(db.statements.map((s) => s.sql)), ["BEGIN", "INSERT", "ROLLBACK"]);
+  });
+
+  test("a traffic purchase is written in the same transaction as its event", async (t) => {
+    const db = fakeDb(t).answer(/INSERT INTO self_transactions/, [
+      { inserted: true },
+      { inserted: true },
+    ]);
+    const events = [
+      { event_id: "ev-2", transaction_type: "transfer", date: "2026-03-01T00:00:02Z" },
+      {
+        event_id: "ev-1",
+        transaction_type: "balance_change",
+        transaction_subtype: { choice: "WalletAppInstall_BuyMemberTraffic" },
+        sender: { party: "party::1", amount: "-4.25" },
+        date: "2026-03-01T00:00:01Z",
+      },
+    ] as WalletTxLogEntry[];
+
+    const inserted = await withTransaction((client) =>
+      insertSelfTransactions(client, "mainnet", "party::1", events),
+    );
+
+    assert.equal(inserted, 2);
+    const [purchase] = db.find(/INSERT INTO self_traffic_purchases/);
+    assert.deepEqual(purchase.params.slice(0, 4), ["ev-1", "mainnet", "party::1", 4.25]);
+    assert.deepEqual(verbs(db.statements.map((s) => s.sql)), [
+      "BEGIN",
+      "INSERT",
+      "INSERT",
+      "COMMIT",
+    ]);
+  });
+});
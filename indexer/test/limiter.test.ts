@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RateLimiter } from "../src/collectors/limiter.js";
+
+test("a burst below one still lets requests through", async () => {
+  const limiter = new RateLimiter("test", { ratePerSec: 100, burst: 0, maxInFlight: 0 });
+  const results = await Promise.all([1, 2, 3].map((n) => limiter.run(async () => n)));
+  assert.deepEqual(results, [1, 2, 3]);
+});
+
+test("caps requests in flight", async () => {
+  const limiter = new RateLimiter("test", { ratePerSec: 0, burst: 1, maxInFlight: 2 });
+  let inFlight = 0;
+  let peak = 0;
+  await Promise.all(
+    Array.from({ length: 6 }, () =>
+      limiter.run(async () => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+      }),
+    ),
+  );
+  assert.equal(peak, 2);
+  assert.equal(limiter.snapshot().in_flight, 0);
+});
@@ -0,0 +1,66 @@
+import { WalletBalance, WalletTxLogEntry } from "../src/collectors/validator.js";
+import { LocalServer, readBody, sendJson, startServer } from "./support.js";
+
+// A stand-in for the validator app's wallet API plus an OAuth2 token endpoint.
+// Only the most recently issued token is accepted, so tests can expire it with
+// `revokeToken()` and watch the collector fetch a new one.
+
+export interface MockValidatorApi {
+  server: LocalServer;
+  tokenUrl: string;
+  tokensIssued: number;
+  balance: WalletBalance;
+  // Wallet history, newest first
+  events: WalletTxLogEntry[];
+  revokeToken(): void;
+}
+
+export async function startMockValidatorApi(
+  init: { balance?: WalletBalance; events?: WalletTxLogEntry[] } = {},
+): Promise<MockValidatorApi> {
+  let current: string | null = null;
+  const mock = {
+    tokensIssued: 0,
+    balance: init.balance ?? {
+      round: 1,
+      effective_unlocked_qty: "0",
+      effective_locked_qty: "0",
+      total_holding_fees: "0",
+    },
+    events: init.events ?? [],
+    revokeToken: () => {
+      current = null;
+    },
+  } as MockValidatorApi;
+
+  mock.server = await startServer(async (req, res) => {
+    const path = new URL(req.url ?? "/", "http://mock").pathname;
+    const body = await readBody(req);
+
+    if (path === "/oauth/token") {
+      const form = new URLSearchParams(body);
+      if (form.get("grant_type") !== "client_credentials") return sendJson(res, 400);
+      current = `token-${++mock.tokensIssued}`;
+      return sendJson(res, 200, { access_token: current, expires_in: 3600 });
+    }
+    if (!current || req.headers.authorization !== `Bearer ${current}`) {
+      return sendJson(res, 401, { error: "unauthorized" });
+    }
+
+    switch (path) {
+      case "/api/validator/v0/wallet/balance":
+        return sendJson(res, 200, mock.balance);
+      case "/api/validator/v0/wallet/transactions": {
+        const { page_size, begin_after_id } = JSON.parse(body || "{}");
+        const start = begin_after_id
+          ? mock.events.findIndex((e) => e.event_id === begin_after_id) + 1
+          : 0;
+        return sendJson(res, 200, { items: mock.events.slice(start, start + page_size) });
+      }
+      default:
+        return sendJson(res, 404, { error: `no mock for ${path}` });
+    }
+  });
+  mock.tokenUrl = `${mock.server.url}/oauth/token`;
+  return mock;
+}
@@ -0,0 +1,114 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { config } from "../src/config.js";
+import { runJobOnce } from "../src/scheduler.js";
+import { fakeDb } from "./fake-db.js";
+
+// Pollers against the recorded Lighthouse fixtures, writing to a FakeDb
+
+describe("pollers", () => {
+  test("stats stores the snapshot, the price and the daily upstream counts", async (t) => {
+    const db = fakeDb(t);
+
+    const outcome = await runJobOnce("mainnet", "stats");
+
+    assert.deepEqual(outcome, { fetched: 1, inserted: 1, upstreamStatus: 200 });
+    const [snapshot] = db.find(/INSERT INTO stats_snapshots/);
+    assert.equal(snapshot.params[0], "mainnet");
+    assert.equal(snapshot.params[2], 612);
+    assert.equal(snapshot.params[4], 0.1532);
+    assert.equal(db.find(/INSERT INTO prices/)[0].params[1], 0.1532);
+    const [daily] = db.find(/INSERT INTO daily_network_activity/);
+    assert.deepEqual(daily.params, [
+      "mainnet",
+      "2026-03-01",
+      411000,
+      "mainnet",
+      "2026-03-02",
+      412000,
+      "mainnet",
+      "2026-03-03",
+      413000,
+    ]);
+    // All of it in one transaction
+    assert.deepEqual(
+      db.statements.map((s) => s.sql.trim().split(/\s+/)[0]),
+      ["BEGIN", "INSERT", "INSERT", "INSERT", "COMMIT"],
+    );
+  });
+
+  test("transfers walks every page on a first sync and checkpoints the head", async (t) => {
+    const db = fakeDb(t);
+
+    const outcome = await runJobOnce("mainnet", "transfers");
+
+    assert.equal(outcome?.fetched, 4);
+    assert.equal(outcome?.error, undefined);
+    const inserts = db.find(/INSERT INTO transfers/);
+    assert.equal(inserts.length, 2, "one statement per page");
+    assert.deepEqual(
+      inserts.flatMap((s) => s.params.filter((_, i) => i % 7 === 0)),
+      ["5004", "5003", "5002", "5001"],
+    );
+    const [checkpoint] = db.find(/INSERT INTO sync_checkpoints/);
+    assert.deepEqual(checkpoint.params.slice(0, 3), ["transfers", "mainnet", 5004]);
+  });
+
+  describe("contracts", () => {
+    function checkpoint(resumeCursor: string | null, lastSyncedAt: string | null) {
+      return {
+        job: "contracts",
+        network: "mainnet",
+        last_seq: null,
+        last_round: null,
+        resume_cursor: resumeCursor,
+        pending_seq: null,
+        last_cursor: null,
+        last_synced_at: lastSyncedAt,
+        updated_at: "2026-03-01T00:00:00.000Z",
+      };
+    }
+
+    test("a complete walk archives what the previous walk saw and this one did not", async (t) => {
+      const db = fakeDb(t).answer(/FROM sync_checkpoints/, [
+        checkpoint(null, "2026-03-01T00:00:00.000Z"),
+      ]);
+
+      const outcome = await runJobOnce("mainnet", "contracts");
+
+      assert.equal(outcome?.fetched, 3);
+      assert.equal(db.find(/INSERT INTO contracts/).length, 2);
+      const [archive] = db.find(/UPDATE contracts SET active = FALSE/);
+      assert.deepEqual(archive.params, ["mainnet", "2026-03-01T00:00:00.000Z"]);
+      const [saved] = db.find(/INSERT INTO sync_checkpoints/);
+      assert.equal(saved.params[4], null, "the next walk starts from the head");
+      assert.notEqual(saved.params[7], "2026-03-01T00:00:00.000Z");
+    });
+
+    test("a walk cut short by POLL_MAX_PAGES continues from its cursor", async (t) => {
+      const db = fakeDb(t).answer(/FROM sync_checkpoints/, [checkpoint(null, null)]);
+      // config is read-only to the app; the test narrows the walk to one page
+      const polling = config.polling as { maxPages: number };
+      const maxPages = polling.maxPages;
+      polling.maxPages = 1;
+      t.after(() => {
+        polling.maxPages = maxPages;
+      });
+
+      await runJobOnce("mainnet", "contracts");
+
+      assert.equal(db.find(/UPDATE contracts/).length, 0);
+      assert.equal(db.find(/INSERT INTO sync_checkpoints/)[0].params[4], "00c2");
+    });
+
+    test("the first complete walk archives nothing", async (t) => {
+      const db = fakeDb(t).answer(/FROM sync_checkpoints/, [checkpoint("00c2", null)]);
+
+      const outcome = await runJobOnce("mainnet", "contracts");
+
+      assert.equal(outcome?.fetched, 1);
+      assert.deepEqual(db.find(/INSERT INTO contracts/)[0].params[0], "00c1");
+      assert.equal(db.find(/UPDATE contracts/).length, 0);
+    });
+  });
+});
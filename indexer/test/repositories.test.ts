@@ -0,0 +1,190 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Where } from "../src/storage/repositories/where.js";
+import {
+  analytics,
+  contracts,
+  self,
+  transfers,
+  validators,
+} from "../src/storage/repositories/index.js";
+import { fakeDb } from "./fake-db.js";
+
+// The WHERE builder on its own, then the SQL and params the repositories send,
+// captured by a FakeDb
+
+// Collapses whitespace so assertions do not depend on the query's layout
+function flat(sql: string): string {
+  return sql.replace(/\s+/g, " ").trim();
+}
+
+describe("Where", () => {
+  test("is empty without conditions", () => {
+    const where = new Where();
+    assert.equal(`${where}`, "");
+    assert.deepEqual(where.params, []);
+  });
+
+  test("numbers placeholders in the order conditions are added", () => {
+    const where = new Where()
+      .eq("network", "mainnet")
+      .and("(sender = ? OR receiver = ?)", "a", "b")
+      .eq("round", 7);
+
+    assert.equal(
+      `${where}`,
+      "WHERE network = $1 AND (sender = $2 OR receiver = $3) AND round = $4",
+    );
+    assert.deepEqual(where.params, ["mainnet", "a", "b", 7]);
+  });
+
+  test("skips undefined values but keeps null", () => {
+    const where = new Where().eq("sender", undefined).eq("receiver", null);
+
+    assert.equal(`${where}`, "WHERE receiver = $1");
+    assert.deepEqual(where.params, [null]);
+  });
+
+  test("param continues the numbering outside the clause", () => {
+    const where = new Where().eq("network", "mainnet");
+
+    assert.equal(where.param(50), "$2");
+    assert.equal(`${where}`, "WHERE network = $1");
+    assert.deepEqual(where.params, ["mainnet", 50]);
+  });
+
+  test("range adds only the bounds given", () => {
+    assert.equal(`${new Where().range("created_at", {})}`, "");
+    assert.equal(
+      `${new Where().range("created_at", { to: "2026-03-02T00:00:00Z" })}`,
+      "WHERE created_at <= $1",
+    );
+    const both = new Where().range("created_at", { from: "2026-03-01", to: "2026-03-02" });
+    assert.equal(`${both}`, "WHERE created_at >= $1 AND created_at <= $2");
+    assert.deepEqual(both.params, ["2026-03-01", "2026-03-02"]);
+  });
+
+  test("days casts the bounds to dates", () => {
+    const where = new Where().days("day", { from: "2026-03-02T18:00:00Z", to: "2026-03-05" });
+
+    assert.equal(`${where}`, "WHERE day >= $1::DATE AND day <= $2::DATE");
+    assert.deepEqual(where.params, ["2026-03-02T18:00:00Z", "2026-03-05"]);
+  });
+});
+
+describe("repositories", () => {
+  test("transfers.list filters, continues after the cursor and limits last", async (t) => {
+    const db = fakeDb(t);
+
+    await transfers.list({
+      network: "mainnet",
+      from: "2026-03-01T00:00:00Z",
+      party: "party::1",
+      cursor: { at: "2026-03-02 10:15:42.123456+00", id: "5002" },
+      limit: 100,
+    });
+
+    const [{ sql, params }] = db.statements;
+    assert.match(
+      flat(sql),
+      /FROM transfers WHERE network = \$1 AND created_at >= \$2 AND \(sender = \$3 OR receiver = \$4\) AND \(created_at < \$5 OR \(created_at = \$6 AND id < \$7\)\) ORDER BY created_at DESC NULLS LAST, id DESC LIMIT \$8$/,
+    );
+    assert.deepEqual(params, [
+      "mainnet",
+      "2026-03-01T00:00:00Z",
+      "party::1",
+      "party::1",
+      "2026-03-02 10:15:42.123456+00",
+      "2026-03-02 10:15:42.123456+00",
+      "5002",
+      100,
+    ]);
+  });
+
+  test("transfers.list hands out a cursor only for a full page", async (t) => {
+    const row = {
+      id: "5003",
+      sender: "a",
+      receiver: "b",
+      amount: "1",
+      created_at: "2026-03-02T10:15:42.123Z",
+      captured_at: "2026-03-02T10:16:00Z",
+      cursor_at: "2026-03-02 10:15:42.123456+00",
+    };
+    fakeDb(t).answer(/FROM transfers/, [row]);
+
+    const full = await transfers.list({ network: "mainnet", limit: 1 });
+    const short = await transfers.list({ network: "mainnet", limit: 2 });
+
+    assert.equal(full.rows[0].id, "5003");
+    assert.equal("cursor_at" in full.rows[0], false);
+    assert.deepEqual(transfers.decodeCursor(full.nextCursor ?? ""), {
+      at: "2026-03-02 10:15:42.123456+00",
+      id: "5003",
+    });
+    assert.equal(short.nextCursor, null);
+  });
+
+  test("decodeCursor rejects what encodeCursor did not produce", () => {
+    const cursor = { at: "2026-03-02 10:15:42+00", id: "5002" };
+    assert.deepEqual(transfers.decodeCursor(transfers.encodeCursor(cursor)), cursor);
+    assert.equal(transfers.decodeCursor("not-a-cursor"), null);
+    const injected = Buffer.from(JSON.stringify(["'; DROP TABLE transfers; --", "1"]));
+    assert.equal(transfers.decodeCursor(injected.toString("base64url")), null);
+  });
+
+  test("validators.uptime binds the id and network once for both sources", async (t) => {
+    const db = fakeDb(t);
+
+    await validators.uptime({
+      validatorId: "node-1",
+      network: "mainnet",
+      from: "2026-03-01",
+      limit: 10,
+    });
+
+    const [{ sql, params }] = db.statements;
+    assert.equal(flat(sql).match(/validator_id = \$1 AND network = \$2/g)?.length, 2);
+    assert.match(flat(sql), /\) s WHERE captured_at >= \$3 ORDER BY captured_at DESC LIMIT \$4$/);
+    assert.deepEqual(params, ["node-1", "mainnet", "2026-03-01", 10]);
+  });
+
+  test("contracts.list binds the party and its JSON path, and lists active contracts only", async (t) => {
+    const db = fakeDb(t);
+
+    await contracts.list({ network: "mainnet", party: "party::1", limit: 20 });
+
+    const [{ sql, params }] = db.statements;
+    assert.match(
+      flat(sql),
+      /FROM contracts WHERE network = \$1 AND active AND jsonb_path_exists\(raw->'payload', \$2::JSONPATH, jsonb_build_object\('party', \$3::TEXT\)\) ORDER BY captured_at DESC LIMIT \$4$/,
+    );
+    assert.deepEqual(params, ["mainnet", "$.** ? (@ == $party)", "party::1", 20]);
+  });
+
+  test("self.transactions filters by type and creation time", async (t) => {
+    const db = fakeDb(t);
+
+    await self.transactions({ network: "mainnet", type: "transfer", to: "2026-03-02", limit: 5 });
+
+    const [{ sql, params }] = db.statements;
+    assert.match(
+      flat(sql),
+      /FROM self_transactions WHERE network = \$1 AND transaction_type = \$2 AND created_at <= \$3 ORDER BY created_at DESC NULLS LAST LIMIT \$4$/,
+    );
+    assert.deepEqual(params, ["mainnet", "transfer", "2026-03-02", 5]);
+  });
+
+  test("analytics.daily matches from and to by day", async (t) => {
+    const db = fakeDb(t);
+
+    await analytics.daily({ network: "mainnet", from: "2026-03-01", to: "2026-03-07", limit: 7 });
+
+    const [{ sql, params }] = db.statements;
+    assert.match(
+      flat(sql),
+      /FROM daily_network_activity WHERE network = \$1 AND day >= \$2::DATE AND day <= \$3::DATE ORDER BY day DESC LIMIT \$4$/,
+    );
+    assert.deepEqual(params, ["mainnet", "2026-03-01", "2026-03-07", 7]);
+  });
+});
@@ -0,0 +1,193 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { FastifyInstance } from "fastify";
+import { buildServer } from "../src/api/server.js";
+import { pool } from "../src/storage/db.js";
+import { stopBackfill } from "../src/api/routes/admin.js";
+import * as lighthouse from "../src/collectors/lighthouse.js";
+import { transfers } from "../src/storage/repositories/index.js";
+import { fakeDb } from "./fake-db.js";
+import { delay, startServer } from "./support.js";
+
+// Routes through fastify.inject: indexed data comes from a FakeDb, live data
+// from the recorded Lighthouse fixtures
+
+let server: FastifyInstance;
+before(async () => {
+  server = await buildServer();
+});
+after(() => server.close());
+
+describe("GET /api/stats", () => {
+  test("serves the latest stored snapshot", async (t) => {
+    const db = fakeDb(t).answer(/FROM stats_snapshots/, [
+      { raw: { cc_price: "0.15" }, captured_at: "2026-03-03T10:00:00.000Z", cc_price: "0.15" },
+    ]);
+
+    const res = await server.inject("/api/stats");
+
+    assert.equal(res.statusCode, 200);
+    assert.deepEqual(res.json(), {
+      cc_price: "0.15",
+      _cached_at: "2026-03-03T10:00:00.000Z",
+      network: "mainnet",
+    });
+    assert.deepEqual(db.find(/FROM stats_snapshots/)[0].params, ["mainnet"]);
+  });
+
+  test("?live=true answers from Lighthouse", async (t) => {
+    const db = fakeDb(t);
+
+    const res = await server.inject("/api/stats?live=true");
+
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.json().total_validator, 612);
+    assert.equal(res.json().network, "mainnet");
+    assert.equal(db.find(/FROM stats_snapshots/).length, 0);
+  });
+});
+
+describe("GET /api/transfers", () => {
+  const row = (id: string) => ({
+    id,
+    sender: "a",
+    receiver: "b",
+    amount: "1.0000000000",
+    created_at: "2026-03-03T10:00:00.000Z",
+    captured_at: "2026-03-03T10:01:00.000Z",
+    cursor_at: "2026-03-03 10:00:00+00",
+  });
+
+  test("pages with a cursor", async (t) => {
+    const db = fakeDb(t).answer(/FROM transfers/, [row("9"), row("8")]);
+
+    const res = await server.inject("/api/transfers?limit=2&sender=a");
+
+    assert.equal(res.statusCode, 200);
+    const body = res.json();
+    assert.deepEqual(
+      body.data.map((r: { id: string }) => r.id),
+      ["9", "8"],
+    );
+    assert.deepEqual(transfers.decodeCursor(body.next_cursor), {
+      at: "2026-03-03 10:00:00+00",
+      id: "8",
+    });
+    assert.deepEqual(db.find(/FROM transfers/)[0].params, ["mainnet", "a", 2]);
+  });
+
+  test("rejects a cursor it did not issue", async () => {
+    const res = await server.inject("/api/transfers?cursor=bogus");
+
+    assert.equal(res.statusCode, 400);
+    assert.deepEqual(res.json(), { error: "Invalid cursor" });
+  });
+});
+
+describe("GET /api/analytics/daily", () => {
+  test("rejects a day that is not a date and a limit below one", async (t) => {
+    const db = fakeDb(t);
+
+    for (const query of ["from=yesterday", "to=2026-02-30", "limit=0"]) {
+      const res = await server.inject(`/api/analytics/daily?${query}`);
+      assert.equal(res.statusCode, 400, query);
+    }
+    assert.equal(db.statements.length, 0);
+  });
+
+  test("passes valid days through", async (t) => {
+    const db = fakeDb(t);
+
+    const res = await server.inject("/api/analytics/daily?from=2026-03-01&to=2026-03-07&limit=7");
+
+    assert.equal(res.statusCode, 200);
+    assert.deepEqual(db.find(/FROM daily_network_activity/)[0].params, [
+      "mainnet",
+      "2026-03-01",
+      "2026-03-07",
+      7,
+    ]);
+  });
+});
+
+describe("POST /api/admin/backfill", () => {
+  const headers = { authorization: "Bearer test-admin-token" };
+
+  test("rejects bounds that do not parse instead of backfilling everything", async (t) => {
+    const db = fakeDb(t);
+
+    for (const payload of [
+      { from: "2026-13-01T00:00:00Z" },
+      { to: "last week" },
+      { from_round: "ten" },
+      { to_round: -1 },
+    ]) {
+      const res = await server.inject({
+        method: "POST",
+        url: "/api/admin/backfill",
+        headers,
+        payload,
+      });
+      assert.equal(res.statusCode, 400, JSON.stringify(payload));
+    }
+    assert.equal(db.statements.length, 0);
+  });
+
+  test("stopping cancels the Lighthouse request in flight", async (t) => {
+    fakeDb(t);
+    // Never answers: only an abort ends the request before the 10s timeout
+    const upstream = await startServer(() => {});
+    const collector = new lighthouse.LighthouseCollector(
+      "mainnet",
+      { baseUrls: [upstream.url], tape: null },
+      "ingest",
+    );
+    t.mock.method(lighthouse, "lighthouseFor", () => collector);
+
+    const res = await server.inject({
+      method: "POST",
+      url: "/api/admin/backfill",
+      headers,
+      payload: { streams: ["transfers"] },
+    });
+    assert.equal(res.statusCode, 202);
+    while (upstream.hits === 0) await delay(5);
+
+    const started = Date.now();
+    await stopBackfill();
+
+    assert.ok(Date.now() - started < 1000, `stopped after ${Date.now() - started}ms`);
+    assert.equal(upstream.hits, 1);
+    const progress = await server.inject({ url: "/api/admin/backfill", headers });
+    assert.equal(progress.json().running, false);
+  });
+});
+
+describe("POST /api/admin/partitions/:table/:month/detach", () => {
+  const request = {
+    method: "POST" as const,
+    url: "/api/admin/partitions/transfers/2026-01/detach",
+    headers: { authorization: "Bearer test-admin-token" },
+  };
+
+  test("is a 409 while the month's detached copy still exists", async (t) => {
+    fakeDb(t)
+      .answer(/FROM pg_inherits/, [{ "?column?": 1 }])
+      .answer(/to_regclass\(\$1\) IS NOT NULL/, [{ found: true }]);
+
+    const res = await server.inject(request);
+
+    assert.equal(res.statusCode, 409);
+    assert.match(res.json().error, /^transfers_2026_01_detached already exists/);
+  });
+
+  test("any other failure is a 500", async (t) => {
+    t.mock.method(pool, "connect", async () => {
+      throw new Error("connection terminated");
+    });
+
+    const res = await server.inject(request);
+
+    assert.equal(res.statusCode, 500);
+  });
+});
@@ -0,0 +1,11 @@
+// Loaded ahead of every test file (see the `test` script), before config.ts
+// reads the environment: Lighthouse is only ever replayed from the recorded
+// fixtures in test/fixtures/lighthouse, and nothing is rate limited.
+process.env["LIGHTHOUSE_MODE"] = "replay";
+process.env["LIGHTHOUSE_FIXTURES_DIR"] = "test/fixtures/lighthouse";
+process.env["LIGHTHOUSE_INGEST_RPS"] = "0";
+process.env["LIGHTHOUSE_API_RPS"] = "0";
+process.env["CANTON_NETWORK"] = "mainnet";
+process.env["NODE_ENV"] = "production";
+process.env["LOG_LEVEL"] = "silent";
+process.env["ADMIN_TOKEN"] = "test-admin-token";
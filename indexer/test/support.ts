@@ -0,0 +1,43 @@
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { after } from "node:test";
+
+// Local HTTP servers standing in for upstreams. Every server started in a test
+// file is closed once the file's tests are done.
+
+export type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+export interface LocalServer {
+  url: string;
+  hits: number;
+  // Swappable mid-test, e.g. to bring a failing upstream back up
+  handle: Handler;
+}
+
+const closers: Array<() => Promise<void>> = [];
+after(() => Promise.all(closers.map((close) => close())));
+
+export async function startServer(handle: Handler): Promise<LocalServer> {
+  const local: LocalServer = { url: "", hits: 0, handle };
+  const server = createServer((req, res) => {
+    local.hits++;
+    local.handle(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  local.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  closers.push(() => new Promise((resolve) => server.close(() => resolve())));
+  return local;
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export async function readBody(req: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+export const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
@@ -0,0 +1,80 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ClientCredentialsTokenProvider,
+  StaticTokenProvider,
+  TokenProvider,
+} from "../src/collectors/auth.js";
+import { ValidatorCollector, WalletTxLogEntry } from "../src/collectors/validator.js";
+import { startMockValidatorApi } from "./mock-validator.js";
+
+const unlimited = { ratePerSec: 0, burst: 1, maxInFlight: 0 };
+
+function collector(baseUrl: string, tokens: TokenProvider) {
+  return new ValidatorCollector(
+    { baseUrls: [baseUrl], retries: 0, limits: { api: unlimited, ingest: unlimited } },
+    tokens,
+  );
+}
+
+function credentials(tokenUrl: string): ClientCredentialsTokenProvider {
+  return new ClientCredentialsTokenProvider({ tokenUrl, clientId: "indexer", clientSecret: "s" });
+}
+
+const event = (id: number): WalletTxLogEntry => ({
+  event_id: `ev-${id}`,
+  transaction_type: "transfer",
+});
+
+describe("validator collector", () => {
+  test("reads the balance with a fetched token", async () => {
+    const mock = await startMockValidatorApi({
+      balance: {
+        round: 42,
+        effective_unlocked_qty: "12.5",
+        effective_locked_qty: "0",
+        total_holding_fees: "0.1",
+      },
+    });
+
+    const res = await collector(mock.server.url, credentials(mock.tokenUrl)).getBalance();
+
+    assert.equal(res.ok, true);
+    assert.equal(res.ok && res.data.effective_unlocked_qty, "12.5");
+    assert.equal(mock.tokensIssued, 1);
+  });
+
+  test("refreshes the token once after a 401", async () => {
+    const mock = await startMockValidatorApi();
+    const client = collector(mock.server.url, credentials(mock.tokenUrl));
+    assert.equal((await client.getBalance()).ok, true);
+
+    mock.revokeToken();
+    const res = await client.getBalance();
+
+    assert.equal(res.ok, true);
+    assert.equal(mock.tokensIssued, 2);
+  });
+
+  test("a static token that is rejected stays rejected", async () => {
+    const mock = await startMockValidatorApi();
+
+    const res = await collector(mock.server.url, new StaticTokenProvider("stale")).getBalance();
+
+    assert.equal(!res.ok && res.status, 401);
+    assert.equal(mock.server.hits, 1);
+  });
+
+  test("pages through the wallet history newest first", async () => {
+    const mock = await startMockValidatorApi({ events: [5, 4, 3, 2, 1].map(event) });
+    const client = collector(mock.server.url, credentials(mock.tokenUrl));
+
+    const pages: string[][] = [];
+    for await (const page of client.pageTransactions(undefined, 2)) {
+      assert.equal(page.ok, true);
+      if (page.ok) pages.push(page.data.items.map((e) => e.event_id));
+    }
+
+    assert.deepEqual(pages, [["ev-5", "ev-4"], ["ev-3", "ev-2"], ["ev-1"]]);
+  });
+});